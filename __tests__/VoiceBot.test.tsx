@@ -1,110 +1,288 @@
 import { render, screen, fireEvent, act } from '@testing-library/react'
 import '@testing-library/jest-dom'
 import VoiceBot from '../components/VoiceBot'
-import { RetellWebClient } from "retell-client-js-sdk"
-
-// Enhanced mock implementation
-const mockEventHandlers: Record<string, Function[]> = {}
-const mockOn = jest.fn((event, handler) => {
-  mockEventHandlers[event] = mockEventHandlers[event] || []
-  mockEventHandlers[event].push(handler)
-  return { removeListener: jest.fn() }
-})
+import type { VoiceBotSession } from '@/types/voice-bot'
 
+// Enhanced mock implementation; every client instance keeps its own listeners
+const mockClients: { handlers: Record<string, Function[]> }[] = []
 const mockStartCall = jest.fn().mockResolvedValue(undefined)
 const mockStopCall = jest.fn().mockResolvedValue(undefined)
 const mockDisconnect = jest.fn().mockResolvedValue(undefined)
 const mockRemoveAllListeners = jest.fn()
+const mockMute = jest.fn()
+const mockUnmute = jest.fn()
 
 // Mock RetellWebClient
 jest.mock('retell-client-js-sdk', () => ({
-  RetellWebClient: jest.fn().mockImplementation(() => ({
-    on: mockOn,
-    removeAllListeners: mockRemoveAllListeners,
-    startCall: mockStartCall,
-    stopCall: mockStopCall,
-    disconnect: mockDisconnect,
-    initializeDevices: jest.fn().mockResolvedValue(undefined)
-  }))
+  RetellWebClient: jest.fn().mockImplementation(() => {
+    const handlers: Record<string, Function[]> = {}
+    const client = {
+      handlers,
+      on: (event: string, handler: Function) => {
+        handlers[event] = [...(handlers[event] || []), handler]
+      },
+      off: (event: string, handler: Function) => {
+        handlers[event] = (handlers[event] || []).filter(item => item !== handler)
+      },
+      removeAllListeners: () => {
+        mockRemoveAllListeners()
+        Object.keys(handlers).forEach(key => delete handlers[key])
+      },
+      startCall: mockStartCall,
+      stopCall: mockStopCall,
+      mute: mockMute,
+      unmute: mockUnmute,
+      disconnect: mockDisconnect,
+      initializeDevices: jest.fn().mockResolvedValue(undefined)
+    }
+    mockClients.push(client)
+    return client
+  })
 }))
 
+// Sessions saved by earlier visits
+let mockSavedSessions: VoiceBotSession[] = []
+jest.mock('@/lib/session-store', () => ({
+  listSessions: () => Promise.resolve(mockSavedSessions),
+  saveSession: () => Promise.resolve(),
+  clearSessions: () => Promise.resolve()
+}))
+
+// The client is recreated for every call, so events come from the newest one
+function emit(event: string, payload?: unknown) {
+  mockClients.at(-1)?.handlers[event]?.forEach(handler => handler(payload))
+}
+
+async function advance(ms: number) {
+  await act(async () => {
+    await jest.advanceTimersByTimeAsync(ms)
+  })
+}
+
+// Click Start Call and wait out the client's debounce
+async function startCall() {
+  await act(async () => {
+    fireEvent.click(screen.getByText('Start Call'))
+  })
+  await advance(600)
+}
+
 describe('VoiceBot', () => {
   beforeEach(() => {
+    jest.useFakeTimers()
     jest.clearAllMocks()
-    Object.keys(mockEventHandlers).forEach(key => {
-      mockEventHandlers[key] = []
-    })
-    global.fetch = jest.fn().mockResolvedValue({
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    mockClients.length = 0
+    mockSavedSessions = []
+    global.fetch = jest.fn().mockImplementation((url: string) => Promise.resolve({
       ok: true,
-      json: () => Promise.resolve({ access_token: 'mock-token' })
-    })
+      json: () => Promise.resolve(url === '/api/retell/agents'
+        ? { data: [] }
+        : { access_token: 'mock-token', call_id: 'call_1' })
+    }))
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    jest.restoreAllMocks()
   })
 
-  it('initializes with correct default state', () => {
+  it('initializes with correct default state', async () => {
     render(<VoiceBot />)
+    await advance(0)
+
     expect(screen.getByText('Start Call')).toBeInTheDocument()
     expect(screen.queryByText(/Error/)).not.toBeInTheDocument()
+    expect(screen.queryByText('Mute')).not.toBeInTheDocument()
+  })
+
+  it('moves back to the default agent when no agent speaks the chosen language', async () => {
+    ;(global.fetch as jest.Mock).mockImplementation((url: string) => Promise.resolve({
+      ok: true,
+      json: () => Promise.resolve(url === '/api/retell/agents'
+        ? {
+          data: [
+            { id: 'agent_en', name: 'Assistant' },
+            { id: 'agent_es', name: 'Asistente', locale: 'es-ES' }
+          ],
+          default_agent_id: 'agent_en'
+        }
+        : { access_token: 'mock-token', call_id: 'call_1' })
+    }))
+    render(<VoiceBot />)
+    await advance(0)
+    expect(screen.getByLabelText('Agent')).toHaveValue('agent_en')
+
+    fireEvent.change(screen.getByLabelText('Language'), { target: { value: 'es-ES' } })
+    expect(screen.getByLabelText('Agent')).toHaveValue('agent_es')
+
+    fireEvent.change(screen.getByLabelText('Language'), { target: { value: 'en-US' } })
+    expect(screen.getByLabelText('Agent')).toHaveValue('agent_en')
   })
 
   it('handles complete call lifecycle', async () => {
     render(<VoiceBot />)
-    
-    // Start call
-    await act(async () => {
-      fireEvent.click(screen.getByText('Start Call'))
-    })
+    await startCall()
 
     // Verify call setup
     expect(mockStartCall).toHaveBeenCalledWith({
       accessToken: 'mock-token',
       sampleRate: 24000,
       captureDeviceId: 'default',
+      playbackDeviceId: 'default',
       emitRawAudioSamples: false
     })
 
     // Simulate transcription
     await act(async () => {
-      const transcriptionHandler = mockEventHandlers['transcription']?.[0]
-      if (transcriptionHandler) {
-        transcriptionHandler({ text: 'Hello' })
-      }
+      emit('update', { transcript: [{ role: 'user', content: 'Hello' }] })
     })
     expect(screen.getByText('Hello')).toBeInTheDocument()
 
     // End call by clicking end button
     await act(async () => {
-      const endButton = screen.getByText('End Call')
-      fireEvent.click(endButton)
+      fireEvent.click(screen.getByText('End Call'))
     })
-
+    await advance(600)
     expect(mockStopCall).toHaveBeenCalled()
+
+    await act(async () => {
+      emit('call_ended')
+    })
     expect(screen.getByText('Start Call')).toBeInTheDocument()
   })
 
-  it('handles errors during call', async () => {
+  it('mutes and unmutes the microphone during a call', async () => {
     render(<VoiceBot />)
+    await startCall()
 
-    // Start call
     await act(async () => {
-      fireEvent.click(screen.getByText('Start Call'))
+      fireEvent.click(screen.getByText('Mute'))
     })
+    expect(mockMute).toHaveBeenCalledTimes(1)
+    expect(screen.getByRole('status')).toHaveTextContent('Muted')
+    expect(screen.getByText('Unmute')).toHaveAttribute('aria-pressed', 'true')
 
-    // Simulate error
     await act(async () => {
-      const errorHandler = mockEventHandlers['error']?.[0]
-      if (errorHandler) {
-        errorHandler(new Error('Test error'))
-      }
+      fireEvent.click(screen.getByText('Unmute'))
     })
+    expect(mockUnmute).toHaveBeenCalledTimes(1)
+    expect(screen.queryByRole('status')).not.toBeInTheDocument()
+  })
 
-    // Click end call button to trigger stopCall
+  it('shows who is speaking and records turn latency', async () => {
+    render(<VoiceBot />)
+    await startCall()
+
+    await act(async () => {
+      emit('call_started')
+      emit('update', { transcript: [{ role: 'user', content: 'What time is it?' }] })
+    })
+    expect(screen.getByText('You are speaking')).toBeInTheDocument()
+
+    await advance(300)
     await act(async () => {
-      const endButton = screen.getByText('End Call')
-      fireEvent.click(endButton)
+      emit('agent_start_talking')
+    })
+    expect(screen.getByText('Assistant speaking')).toBeInTheDocument()
+    expect(screen.getByText(/Response time: 300 ms last/)).toBeInTheDocument()
+
+    await act(async () => {
+      emit('agent_stop_talking')
+    })
+    expect(screen.queryByText('Assistant speaking')).not.toBeInTheDocument()
+  })
+
+  it('treats the user as silent once their transcript stops changing', async () => {
+    render(<VoiceBot />)
+    await startCall()
+
+    await act(async () => {
+      emit('update', { transcript: [{ role: 'user', content: 'Hello' }] })
+    })
+    await advance(1500)
+
+    expect(screen.queryByText('You are speaking')).not.toBeInTheDocument()
+  })
+
+  it('clears the muted indicator when the call ends', async () => {
+    render(<VoiceBot />)
+    await startCall()
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('Mute'))
+    })
+    await act(async () => {
+      emit('call_ended')
+    })
+
+    expect(screen.queryByText('Muted')).not.toBeInTheDocument()
+    expect(screen.queryByText('Unmute')).not.toBeInTheDocument()
+  })
+
+  it('counts down before ending an idle call and stays on when the user is still there', async () => {
+    render(<VoiceBot />)
+    await startCall()
+
+    // Default limits: five minutes of inactivity, with a 30 second warning
+    await advance(271000)
+    expect(screen.getByRole('alert')).toHaveTextContent('The call will end in 29s')
+
+    await act(async () => {
+      fireEvent.click(screen.getByText("I'm still here"))
+    })
+    expect(screen.queryByText(/The call will end/)).not.toBeInTheDocument()
+
+    await advance(60000)
+    expect(mockStopCall).not.toHaveBeenCalled()
+  })
+
+  it('replaces a restored conversation but keeps the wake word notice for the new call', async () => {
+    mockSavedSessions = [{
+      callId: 'call_saved',
+      startedAt: new Date('2024-05-01T10:00:00.000Z'),
+      updatedAt: new Date('2024-05-01T10:05:00.000Z'),
+      messages: [{
+        id: 'saved-1',
+        type: 'transcription',
+        role: 'user',
+        content: 'From last time',
+        timestamp: new Date('2024-05-01T10:00:05.000Z'),
+        isComplete: true
+      }]
+    }]
+    process.env.NEXT_PUBLIC_WAKE_WORD_ENGINE = 'scripted'
+    try {
+      render(<VoiceBot />)
+      await advance(0)
+      // Once in the saved sessions list and once in the transcript
+      expect(screen.getAllByText('From last time')).toHaveLength(2)
+
+      // The demo script says the first wake phrase after five seconds
+      await act(async () => {
+        fireEvent.click(screen.getByText('Listen for Wake Word'))
+      })
+      await advance(6000)
+      await advance(600)
+
+      expect(screen.getAllByText('From last time')).toHaveLength(1)
+      expect(screen.getByText(/Wake word ".*" detected!/)).toBeInTheDocument()
+    } finally {
+      delete process.env.NEXT_PUBLIC_WAKE_WORD_ENGINE
+    }
+  })
+
+  it('handles errors during call', async () => {
+    render(<VoiceBot />)
+    await startCall()
+
+    // Simulate error
+    await act(async () => {
+      emit('error', new Error('Test error'))
     })
 
     expect(screen.getByText(/Test error/)).toBeInTheDocument()
-    expect(mockStopCall).toHaveBeenCalled()
+    expect(screen.getByText('Start Call')).toBeInTheDocument()
   })
 
   it('cleans up resources on unmount', async () => {
@@ -116,4 +294,4 @@ describe('VoiceBot', () => {
 
     expect(mockRemoveAllListeners).toHaveBeenCalled()
   })
-}) 
\ No newline at end of file
+})
@@ -0,0 +1,56 @@
+import {
+  formatAnalysisValue,
+  getOrderedAnalysisFields,
+  transformCustomAnalysis,
+} from '@/lib/analysis-schema'
+import type { AnalysisFieldSchema } from '@/types/retell'
+
+const schema: AnalysisFieldSchema[] = [
+  { key: 'mood', label: 'Mood', type: 'enum', order: 30, options: ['calm', 'upset'] },
+  { key: 'age', label: 'Age', type: 'number', order: 20 },
+  { key: 'resolved', label: 'Resolved', type: 'boolean', order: 40 },
+  { key: 'name', label: 'Name', type: 'string', order: 10 },
+]
+
+describe('transformCustomAnalysis', () => {
+  it('coerces schema fields to their declared types', () => {
+    const { fields } = transformCustomAnalysis({ name: 'Sam', age: ' 4 ', mood: 'calm', resolved: 'Yes' }, schema)
+
+    expect(fields).toEqual({ name: 'Sam', age: 4, mood: 'calm', resolved: true })
+  })
+
+  it('keeps every schema key, with null for missing or unusable values', () => {
+    const { fields } = transformCustomAnalysis({ age: 'four', mood: 'angry', name: '' }, schema)
+
+    expect(fields).toEqual({ name: null, age: null, mood: null, resolved: null })
+    expect(transformCustomAnalysis(undefined, schema).fields).toEqual(fields)
+  })
+
+  it('reads false-like booleans as false', () => {
+    expect(transformCustomAnalysis({ resolved: 'no' }, schema).fields.resolved).toBe(false)
+    expect(transformCustomAnalysis({ resolved: false }, schema).fields.resolved).toBe(false)
+  })
+
+  it('passes keys the schema does not know through as strings', () => {
+    const { extraFields } = transformCustomAnalysis({ name: 'Sam', topic: 'sleep', tags: ['a', 'b'], score: 3, empty: null }, schema)
+
+    expect(extraFields).toEqual({ topic: 'sleep', tags: '["a","b"]', score: '3' })
+  })
+})
+
+describe('getOrderedAnalysisFields', () => {
+  it('sorts fields by order without changing the schema', () => {
+    expect(getOrderedAnalysisFields(schema).map(field => field.key)).toEqual(['name', 'age', 'mood', 'resolved'])
+    expect(schema[0].key).toBe('mood')
+  })
+})
+
+describe('formatAnalysisValue', () => {
+  it('shows booleans as Yes/No and empty values as blank', () => {
+    expect(formatAnalysisValue(true)).toBe('Yes')
+    expect(formatAnalysisValue(false)).toBe('No')
+    expect(formatAnalysisValue(4)).toBe('4')
+    expect(formatAnalysisValue(null)).toBe('')
+    expect(formatAnalysisValue(undefined)).toBe('')
+  })
+})
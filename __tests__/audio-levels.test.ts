@@ -0,0 +1,94 @@
+import { act, renderHook } from '@testing-library/react'
+import { useAudioLevels } from '@/hooks/use-audio-levels'
+import { rmsLevel, SILENT_LEVELS, smoothLevel, toWaveform } from '@/lib/audio-levels'
+
+function sine(length: number, amplitude: number) {
+  return Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * i) / 64))
+}
+
+describe('audio level helpers', () => {
+  it('scales RMS to a 0-1 level', () => {
+    expect(rmsLevel(new Float32Array(512))).toBe(0)
+    expect(rmsLevel(sine(512, 0.2))).toBeCloseTo(0.2 / Math.SQRT2 / 0.3, 2)
+    expect(rmsLevel(sine(512, 1))).toBe(1)
+    expect(rmsLevel(new Float32Array(0))).toBe(0)
+  })
+
+  it('reduces samples to per-bar peaks', () => {
+    const samples = new Float32Array(8)
+    samples[1] = -0.5
+    samples[6] = 0.75
+
+    expect(toWaveform(samples, 4)).toEqual([0.5, 0, 0, 0.75])
+    expect(toWaveform(new Float32Array(0), 3)).toEqual([0, 0, 0])
+  })
+
+  it('rises immediately and falls back gradually', () => {
+    expect(smoothLevel(0.2, 0.8)).toBe(0.8)
+    expect(smoothLevel(0.8, 0, 0.5)).toBe(0.4)
+  })
+})
+
+describe('useAudioLevels', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('reads the latest agent samples once per animation frame', () => {
+    const agentSamplesRef = { current: null as Float32Array | null }
+    let renders = 0
+    const { result } = renderHook(() => {
+      renders++
+      return useAudioLevels({ isActive: true, isMuted: false, captureDeviceId: 'default', agentSamplesRef })
+    })
+    const rendersBefore = renders
+
+    // Many audio events within one frame only cost a single render
+    act(() => {
+      for (let i = 0; i < 20; i++) agentSamplesRef.current = sine(1024, 0.1 + i * 0.01)
+      jest.advanceTimersByTime(16)
+    })
+
+    expect(renders - rendersBefore).toBe(1)
+    expect(result.current.agent).toBeCloseTo(rmsLevel(sine(1024, 0.29)), 5)
+    expect(result.current.agentWaveform.some(peak => peak > 0)).toBe(true)
+    expect(result.current.user).toBe(0)
+  })
+
+  it('stays silent without rendering when nothing is heard', () => {
+    const agentSamplesRef = { current: null as Float32Array | null }
+    let renders = 0
+    const { result } = renderHook(() => {
+      renders++
+      return useAudioLevels({ isActive: true, isMuted: false, captureDeviceId: 'default', agentSamplesRef })
+    })
+    const rendersBefore = renders
+
+    act(() => {
+      jest.advanceTimersByTime(500)
+    })
+
+    expect(renders).toBe(rendersBefore)
+    expect(result.current).toBe(SILENT_LEVELS)
+  })
+
+  it('resets when the call ends', () => {
+    const agentSamplesRef = { current: sine(1024, 0.3) as Float32Array | null }
+    const { result, rerender } = renderHook(
+      ({ isActive }) => useAudioLevels({ isActive, isMuted: false, captureDeviceId: 'default', agentSamplesRef }),
+      { initialProps: { isActive: true } }
+    )
+    act(() => {
+      jest.advanceTimersByTime(16)
+    })
+    expect(result.current.agent).toBeGreaterThan(0)
+
+    rerender({ isActive: false })
+
+    expect(result.current).toBe(SILENT_LEVELS)
+  })
+})
@@ -0,0 +1,34 @@
+import { canTransition, isCallLive, isCallTransitioning, nextCallState } from '@/lib/call-lifecycle'
+
+describe('call lifecycle', () => {
+  it('follows a call from idle to ended', () => {
+    expect(nextCallState('idle', 'start')).toBe('connecting')
+    expect(nextCallState('connecting', 'connected')).toBe('ongoing')
+    expect(nextCallState('ongoing', 'end')).toBe('ending')
+    expect(nextCallState('ending', 'ended')).toBe('ended')
+    expect(nextCallState('ended', 'start')).toBe('connecting')
+  })
+
+  it('moves to error from any active state and allows a retry', () => {
+    expect(nextCallState('connecting', 'fail')).toBe('error')
+    expect(nextCallState('ongoing', 'fail')).toBe('error')
+    expect(nextCallState('ending', 'fail')).toBe('error')
+    expect(nextCallState('error', 'start')).toBe('connecting')
+  })
+
+  it('rejects illegal transitions', () => {
+    expect(nextCallState('connecting', 'end')).toBeNull()
+    expect(canTransition('connecting', 'start')).toBe(false)
+    expect(canTransition('ongoing', 'start')).toBe(false)
+    expect(canTransition('ending', 'end')).toBe(false)
+    expect(canTransition('idle', 'end')).toBe(false)
+    expect(canTransition('idle', 'ended')).toBe(false)
+  })
+
+  it('classifies live and transitioning states', () => {
+    expect(['idle', 'connecting', 'ongoing', 'ending', 'ended', 'error'].filter(state => isCallLive(state as never)))
+      .toEqual(['ongoing', 'ending'])
+    expect(['idle', 'connecting', 'ongoing', 'ending', 'ended', 'error'].filter(state => isCallTransitioning(state as never)))
+      .toEqual(['connecting', 'ending'])
+  })
+})
@@ -0,0 +1,150 @@
+/**
+ * @jest-environment node
+ */
+import { POST } from '../app/api/retell/create-call/route'
+import { serverRetellConfig } from '@/lib/retell-config'
+
+const mockCreateWebCall = jest.fn()
+
+jest.mock('retell-sdk', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({
+    call: {
+      createWebCall: mockCreateWebCall
+    }
+  }))
+}))
+
+jest.mock('@/lib/retell-config', () => {
+  const agents = [
+    { id: 'agent_intake', name: 'Intake', description: 'First contact' },
+    { id: 'agent_followup', name: 'Follow-up' },
+    { id: 'agent_spanish', name: 'Recepción', locale: 'es' }
+  ]
+  return {
+    serverRetellConfig: { apiKey: 'test-key', agentId: 'agent_intake', allowedDynamicVariables: ['account_tier'] },
+    findAgent: (agentId: string) => agents.find(agent => agent.id === agentId),
+    findAgentForLocale: (locale: string) => agents.find(agent => agent.locale && locale.startsWith(agent.locale))
+  }
+})
+
+function postJson(body: unknown) {
+  return POST(new Request('http://localhost/api/retell/create-call', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  }))
+}
+
+describe('POST /api/retell/create-call', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockCreateWebCall.mockResolvedValue({ call_id: 'call_1', access_token: 'token' })
+  })
+
+  it('starts a call with the chosen catalogue agent', async () => {
+    const response = await postJson({ agentId: 'agent_followup' })
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ call_id: 'call_1', access_token: 'token' })
+    expect(mockCreateWebCall).toHaveBeenCalledWith(expect.objectContaining({ agent_id: 'agent_followup' }))
+  })
+
+  it('falls back to the default agent', async () => {
+    await postJson({})
+
+    expect(mockCreateWebCall).toHaveBeenCalledWith(expect.objectContaining({ agent_id: 'agent_intake' }))
+  })
+
+  it('picks an agent for the caller locale when none is chosen', async () => {
+    await postJson({ locale: 'es-ES' })
+
+    expect(mockCreateWebCall).toHaveBeenCalledWith(expect.objectContaining({
+      agent_id: 'agent_spanish',
+      metadata: expect.objectContaining({ locale: 'es-ES' })
+    }))
+  })
+
+  it('keeps an explicitly chosen agent regardless of locale', async () => {
+    await postJson({ agentId: 'agent_followup', locale: 'es-ES' })
+
+    expect(mockCreateWebCall).toHaveBeenCalledWith(expect.objectContaining({ agent_id: 'agent_followup' }))
+  })
+
+  it('forwards caller details as metadata and dynamic variables', async () => {
+    await postJson({ callerName: ' Sam ', locale: 'en-GB', variables: { account_tier: 'gold' } })
+
+    const expected = { account_tier: 'gold', customer_name: 'Sam', locale: 'en-GB' }
+    expect(mockCreateWebCall).toHaveBeenCalledWith({
+      agent_id: 'agent_intake',
+      metadata: expected,
+      retell_llm_dynamic_variables: expected
+    })
+  })
+
+  it('links a reconnect to the dropped call in the metadata only', async () => {
+    await postJson({ previousCallId: 'call_dropped' })
+
+    const { metadata, retell_llm_dynamic_variables } = mockCreateWebCall.mock.calls[0][0]
+    expect(metadata).toEqual({ customer_name: 'User', previous_call_id: 'call_dropped' })
+    expect(retell_llm_dynamic_variables).toEqual({ customer_name: 'User' })
+    expect((await postJson({ previousCallId: 'not a call id' })).status).toBe(400)
+  })
+
+  it('rejects variables outside the allowlist', async () => {
+    const response = await postJson({ variables: { account_tier: 'gold', discount: '100%' } })
+
+    expect(response.status).toBe(403)
+    expect(await response.json()).toMatchObject({ code: 'variable_not_allowed', error: 'Variables not allowed: discount' })
+    expect(mockCreateWebCall).not.toHaveBeenCalled()
+  })
+
+  it('rejects malformed caller details', async () => {
+    expect((await postJson({ locale: 'english please' })).status).toBe(400)
+    expect((await postJson({ variables: ['account_tier'] })).status).toBe(400)
+    expect((await postJson({ variables: { account_tier: 42 } })).status).toBe(400)
+  })
+
+  it('rejects agents outside the catalogue', async () => {
+    const response = await postJson({ agentId: 'agent_other' })
+
+    expect(response.status).toBe(403)
+    expect(await response.json()).toMatchObject({ code: 'agent_not_allowed' })
+    expect(mockCreateWebCall).not.toHaveBeenCalled()
+  })
+
+  it('answers malformed JSON with a 400', async () => {
+    const response = await POST(new Request('http://localhost/api/retell/create-call', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"agentId":'
+    }))
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({ code: 'invalid_json' })
+  })
+
+  it('reports a missing API key without calling Retell', async () => {
+    const apiKey = serverRetellConfig.apiKey
+    serverRetellConfig.apiKey = undefined
+    try {
+      const response = await postJson({})
+
+      expect(response.status).toBe(500)
+      expect(await response.json()).toMatchObject({ code: 'server_misconfigured' })
+      expect(mockCreateWebCall).not.toHaveBeenCalled()
+    } finally {
+      serverRetellConfig.apiKey = apiKey
+    }
+  })
+
+  it('maps Retell failures to a 500', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    mockCreateWebCall.mockRejectedValue(new Error('Retell is down'))
+
+    const response = await postJson({})
+
+    expect(response.status).toBe(500)
+    expect(await response.json()).toEqual({ error: 'Retell is down', code: 'internal_error' })
+  })
+})
@@ -0,0 +1,107 @@
+/**
+ * @jest-environment node
+ */
+import { GET } from '../app/api/retell/export-calls/route'
+import { InMemoryCallRepository, setCallRepository } from '@/lib/call-repository'
+import type { RetellCall } from '@/types/retell'
+
+const mockList = jest.fn()
+const mockRetrieve = jest.fn()
+
+jest.mock('retell-sdk', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({
+    call: {
+      list: mockList,
+      retrieve: mockRetrieve
+    }
+  }))
+}))
+
+jest.mock('@/lib/retell-config', () => ({
+  serverRetellConfig: { apiKey: 'test-key' }
+}))
+
+function makeCall(callId: string, summary: string): RetellCall {
+  return {
+    call_id: callId,
+    call_status: 'ended',
+    start_timestamp: 1700000000000,
+    end_timestamp: 1700000012000,
+    call_analysis: {
+      call_summary: summary,
+      user_sentiment: 'Neutral',
+      call_successful: true,
+      custom_analysis_data: { name: 'Sam', mood: 'calm' }
+    }
+  }
+}
+
+describe('GET /api/retell/export-calls', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    setCallRepository(new InMemoryCallRepository())
+    mockRetrieve.mockImplementation(async (callId: string) => makeCall(callId, `Summary, "${callId}"`))
+  })
+
+  afterAll(() => {
+    setCallRepository(null)
+  })
+
+  it('streams every page as CSV with one column per analysis field', async () => {
+    // A full first page (100 calls) makes the export ask for the next one
+    const firstPage = Array.from({ length: 100 }, (_, i) => makeCall(`call_${i}`, ''))
+    mockList
+      .mockResolvedValueOnce(firstPage)
+      .mockResolvedValueOnce([makeCall('call_last', '')])
+
+    const response = await GET(new Request('http://localhost/api/retell/export-calls?format=csv&status=ended'))
+    const lines = (await response.text()).trim().split('\r\n')
+
+    expect(response.headers.get('Content-Type')).toContain('text/csv')
+    expect(mockList).toHaveBeenCalledTimes(2)
+    expect(mockList).toHaveBeenLastCalledWith(expect.objectContaining({ pagination_key: 'call_99' }))
+    expect(lines[0]).toContain('call_summary,user_sentiment,call_successful,Name,')
+    expect(lines).toHaveLength(102)
+    expect(lines[1]).toBe(
+      'call_0,ended,2023-11-14T22:13:20.000Z,12,ok,"Summary, ""call_0""",Neutral,Yes,Sam,,,,,,"{""mood"":""calm""}"'
+    )
+  })
+
+  it('keeps spreadsheet formulas in call data from running', async () => {
+    mockList.mockResolvedValue([makeCall('call_a', '')])
+    mockRetrieve.mockResolvedValue({
+      ...makeCall('call_a', ''),
+      call_analysis: {
+        call_summary: '=HYPERLINK("http://example.com","Open")',
+        user_sentiment: '@SUM(A1)',
+        call_successful: true,
+        custom_analysis_data: { name: '+1 555 0100', scenario: '-2+3' }
+      }
+    })
+
+    const response = await GET(new Request('http://localhost/api/retell/export-calls?format=csv'))
+    const lines = (await response.text()).trim().split('\r\n')
+
+    expect(lines[1]).toBe(
+      'call_a,ended,2023-11-14T22:13:20.000Z,12,ok,"\'=HYPERLINK(""http://example.com"",""Open"")",\'@SUM(A1),Yes,\'+1 555 0100,,,\'-2+3,,,'
+    )
+  })
+
+  it('streams NDJSON and JSON', async () => {
+    mockList.mockResolvedValue([makeCall('call_a', ''), makeCall('call_b', '')])
+
+    const ndjson = await (await GET(new Request('http://localhost/api/retell/export-calls?format=ndjson'))).text()
+    expect(ndjson.trim().split('\n').map(line => JSON.parse(line).call_id)).toEqual(['call_a', 'call_b'])
+
+    const json = await (await GET(new Request('http://localhost/api/retell/export-calls?format=json'))).json()
+    expect(json.map((call: { call_id: string }) => call.call_id)).toEqual(['call_a', 'call_b'])
+  })
+
+  it('rejects unknown formats', async () => {
+    const response = await GET(new Request('http://localhost/api/retell/export-calls?format=xml'))
+
+    expect(response.status).toBe(400)
+  })
+})
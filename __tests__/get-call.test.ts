@@ -0,0 +1,78 @@
+/**
+ * @jest-environment node
+ */
+import { GET } from '../app/api/retell/get-call/[callId]/route'
+
+const mockRetrieve = jest.fn()
+
+jest.mock('retell-sdk', () => {
+  class NotFoundError extends Error {}
+  const Retell = jest.fn().mockImplementation(() => ({
+    call: {
+      retrieve: mockRetrieve
+    }
+  }))
+  return { __esModule: true, default: Object.assign(Retell, { NotFoundError }) }
+})
+
+jest.mock('@/lib/retell-config', () => ({
+  serverRetellConfig: { apiKey: 'test-key' }
+}))
+
+function getCall(callId: string) {
+  return GET(new Request(`http://localhost/api/retell/get-call/${callId}`), { params: Promise.resolve({ callId }) })
+}
+
+describe('GET /api/retell/get-call/[callId]', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('returns the call with its transcript, latency and analysis', async () => {
+    mockRetrieve.mockResolvedValue({
+      call_id: 'call_1',
+      agent_id: 'agent_1',
+      call_status: 'ended',
+      call_type: 'web_call',
+      start_timestamp: 1700000000000,
+      end_timestamp: 1700000042000,
+      transcript_object: [{ role: 'agent', content: 'Hi there', words: [] }],
+      latency: { e2e: { p50: 800 } },
+      call_analysis: { call_summary: 'Said hello', custom_analysis_data: { name: 'Sam' } },
+      metadata: { customer_name: 'Sam' }
+    })
+
+    const response = await getCall('call_1')
+    const { data } = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(mockRetrieve).toHaveBeenCalledWith('call_1')
+    expect(data).toMatchObject({
+      call_id: 'call_1',
+      duration: 42000,
+      transcript: [{ role: 'agent', content: 'Hi there' }],
+      latency: { e2e: { p50: 800 } },
+      call_analysis: { call_summary: 'Said hello' },
+      metadata: { customer_name: 'Sam' }
+    })
+    expect(data.custom_analysis.fields.name).toBe('Sam')
+  })
+
+  it('answers an unknown call with a 404', async () => {
+    const { default: Retell } = jest.requireMock('retell-sdk')
+    mockRetrieve.mockRejectedValue(new Retell.NotFoundError('Not found'))
+
+    const response = await getCall('call_missing')
+
+    expect(response.status).toBe(404)
+    expect(await response.json()).toMatchObject({ code: 'not_found' })
+  })
+
+  it('rejects IDs that are not Retell call IDs before calling Retell', async () => {
+    for (const callId of ['../list-calls', 'call_1?limit=1', 'call 1', 'x'.repeat(101)]) {
+      const response = await getCall(callId)
+      expect(response.status).toBe(400)
+    }
+    expect(mockRetrieve).not.toHaveBeenCalled()
+  })
+})
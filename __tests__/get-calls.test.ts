@@ -0,0 +1,202 @@
+/**
+ * @jest-environment node
+ */
+import { GET } from '../app/api/retell/get-calls/route'
+import { InMemoryCallRepository, setCallRepository } from '@/lib/call-repository'
+import { toStoredCall } from '@/lib/retell-calls'
+import { analysisSchema } from '@/lib/analysis-schema'
+import type { RetellCall } from '@/types/retell'
+
+const mockList = jest.fn()
+const mockRetrieve = jest.fn()
+
+jest.mock('retell-sdk', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({
+    call: {
+      list: mockList,
+      retrieve: mockRetrieve
+    }
+  }))
+}))
+
+jest.mock('@/lib/retell-config', () => ({
+  serverRetellConfig: { apiKey: 'test-key' }
+}))
+
+const analyzedCall: RetellCall = {
+  call_id: 'call_analyzed',
+  call_status: 'ended',
+  start_timestamp: 1700000000000,
+  end_timestamp: 1700000030000,
+  call_analysis: {
+    call_summary: 'Asked about bedtime',
+    user_sentiment: 'Positive',
+    call_successful: true,
+    custom_analysis_data: { name: 'Sam', 'age of kid': '4' }
+  }
+}
+
+const ongoingCall: RetellCall = {
+  call_id: 'call_ongoing',
+  call_status: 'ongoing',
+  start_timestamp: 1700000100000
+}
+
+describe('GET /api/retell/get-calls', () => {
+  let repository: InMemoryCallRepository
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    repository = new InMemoryCallRepository()
+    setCallRepository(repository)
+    mockList.mockResolvedValue([analyzedCall, ongoingCall])
+    mockRetrieve.mockImplementation(async (callId: string) =>
+      callId === analyzedCall.call_id ? analyzedCall : ongoingCall
+    )
+  })
+
+  afterAll(() => {
+    setCallRepository(null)
+  })
+
+  it('stores ended, analyzed calls and serves them from the store afterwards', async () => {
+    const first = await GET(new Request('http://localhost/api/retell/get-calls'))
+    expect(first.status).toBe(200)
+    expect(mockRetrieve).toHaveBeenCalledTimes(2)
+    expect(await repository.get('call_analyzed')).not.toBeNull()
+    expect(await repository.get('call_ongoing')).toBeNull()
+
+    mockRetrieve.mockClear()
+    const second = await GET(new Request('http://localhost/api/retell/get-calls'))
+    const body = await second.json()
+
+    expect(mockRetrieve).toHaveBeenCalledTimes(1)
+    expect(mockRetrieve).toHaveBeenCalledWith('call_ongoing')
+    expect(body.data.map((call: { call_id: string }) => call.call_id))
+      .toEqual(['call_analyzed', 'call_ongoing'])
+    expect(body.data[0].analysis.fields.name).toBe('Sam')
+  })
+
+  it('does not retrieve calls that are already in the store', async () => {
+    await repository.save([toStoredCall(analyzedCall)])
+    mockList.mockResolvedValue([analyzedCall])
+
+    await GET(new Request('http://localhost/api/retell/get-calls'))
+
+    expect(mockRetrieve).not.toHaveBeenCalled()
+  })
+
+  it('maps stored calls through the current analysis schema', async () => {
+    const storedCall: RetellCall = {
+      ...analyzedCall,
+      call_analysis: { ...analyzedCall.call_analysis, custom_analysis_data: { name: 'Sam', mood: 'Calm' } }
+    }
+    await repository.save([toStoredCall(storedCall)])
+    mockList.mockResolvedValue([storedCall])
+
+    // A field added to the schema after the call was stored
+    analysisSchema.push({ key: 'mood', label: 'Mood', type: 'string', order: 70 })
+    try {
+      const response = await GET(new Request('http://localhost/api/retell/get-calls'))
+      const body = await response.json()
+
+      expect(mockRetrieve).not.toHaveBeenCalled()
+      expect(body.data[0].analysis.fields.mood).toBe('Calm')
+      expect(body.data[0].analysis.extraFields).toEqual({})
+    } finally {
+      analysisSchema.pop()
+    }
+  })
+
+  it('retries rate-limited retrieves and reports calls that still fail', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    const rateLimited = Object.assign(new Error('Too many requests'), { status: 429 })
+    const notFound = Object.assign(new Error('Call not found'), { status: 404 })
+    let analyzedAttempts = 0
+    mockRetrieve.mockImplementation(async (callId: string) => {
+      if (callId === ongoingCall.call_id) throw notFound
+      if (analyzedAttempts++ === 0) throw rateLimited
+      return analyzedCall
+    })
+
+    const response = await GET(new Request('http://localhost/api/retell/get-calls'))
+    const body = await response.json()
+
+    // One retry for the 429, none for the 404
+    expect(mockRetrieve).toHaveBeenCalledTimes(3)
+    expect(body.data[0].analysisStatus).toEqual({ state: 'ok' })
+    expect(body.data[1].analysisStatus).toEqual({ state: 'failed', reason: 'Call not found' })
+  })
+
+  it('retries a list request that fails with a server error', async () => {
+    const unavailable = Object.assign(new Error('Service unavailable'), { status: 503 })
+    mockList.mockRejectedValueOnce(unavailable)
+
+    const response = await GET(new Request('http://localhost/api/retell/get-calls'))
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(mockList).toHaveBeenCalledTimes(2)
+    expect(body.data).toHaveLength(2)
+  })
+
+  it('marks calls without analysis as pending', async () => {
+    mockList.mockResolvedValue([ongoingCall])
+
+    const body = await (await GET(new Request('http://localhost/api/retell/get-calls'))).json()
+
+    expect(body.data[0].analysisStatus).toEqual({ state: 'pending' })
+  })
+
+  it('passes filters to Retell and searches analysis text locally', async () => {
+    const response = await GET(new Request(
+      'http://localhost/api/retell/get-calls?status=ended,ongoing&successful=true&from=2024-01-01&min_duration=10&agent=agent_a&sort=oldest&q=BEDTIME'
+    ))
+    const body = await response.json()
+
+    expect(mockList).toHaveBeenCalledWith(expect.objectContaining({
+      sort_order: 'ascending',
+      filter_criteria: {
+        call_status: ['ended', 'ongoing'],
+        agent_id: ['agent_a'],
+        call_successful: [true],
+        start_timestamp: { lower_threshold: Date.parse('2024-01-01'), upper_threshold: undefined },
+        duration_ms: { lower_threshold: 10000, upper_threshold: undefined }
+      }
+    }))
+    expect(body.data.map((call: { call_id: string }) => call.call_id)).toEqual(['call_analyzed'])
+  })
+
+  it('rejects invalid filters', async () => {
+    const response = await GET(new Request('http://localhost/api/retell/get-calls?sentiment=Happy'))
+
+    expect(response.status).toBe(400)
+    expect(mockList).not.toHaveBeenCalled()
+  })
+
+  it('passes limit and pagination_key to Retell and returns the next cursor for a full page', async () => {
+    const response = await GET(new Request('http://localhost/api/retell/get-calls?limit=2&pagination_key=call_previous'))
+    const body = await response.json()
+
+    expect(mockList).toHaveBeenCalledWith(expect.objectContaining({ limit: 2, pagination_key: 'call_previous' }))
+    expect(body.pagination_key).toBe('call_ongoing')
+  })
+
+  it('returns no cursor for a short page', async () => {
+    const response = await GET(new Request('http://localhost/api/retell/get-calls?limit=3'))
+    const body = await response.json()
+
+    expect(mockList).toHaveBeenCalledWith(expect.objectContaining({ limit: 3 }))
+    expect(body.data).toHaveLength(2)
+    expect(body.pagination_key).toBeUndefined()
+  })
+
+  it('rejects an invalid limit', async () => {
+    const response = await GET(new Request('http://localhost/api/retell/get-calls?limit=0'))
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({ code: 'invalid_request' })
+  })
+})
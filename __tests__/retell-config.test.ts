@@ -0,0 +1,59 @@
+/**
+ * @jest-environment node
+ */
+import type * as RetellConfig from '@/lib/retell-config'
+
+// serverRetellConfig is read from the environment when the module loads
+async function loadConfig(env: Record<string, string>): Promise<typeof RetellConfig> {
+  const saved = { ...process.env }
+  Object.assign(process.env, env)
+  try {
+    jest.resetModules()
+    return await import('@/lib/retell-config')
+  } finally {
+    process.env = saved
+  }
+}
+
+describe('agent catalogue', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('combines RETELL_AGENTS, RETELL_ALLOWED_AGENT_IDS and the default agent', async () => {
+    const { getAgentCatalogue, findAgent } = await loadConfig({
+      RETELL_AGENT_ID: 'agent_default',
+      RETELL_AGENTS: JSON.stringify([
+        { id: 'agent_intake', name: 'Intake', description: 'First contact' },
+        { id: ' agent_spanish ', name: 'Recepción', locale: 'es' },
+        { name: 'No id' }
+      ]),
+      RETELL_ALLOWED_AGENT_IDS: 'agent_extra, agent_intake,'
+    })
+
+    expect(getAgentCatalogue()).toEqual([
+      { id: 'agent_intake', name: 'Intake', description: 'First contact', locale: undefined },
+      { id: 'agent_spanish', name: 'Recepción', description: undefined, locale: 'es' },
+      { id: 'agent_extra', name: 'agent_extra' },
+      { id: 'agent_default', name: 'agent_default' }
+    ])
+    expect(findAgent('agent_extra')).toBeDefined()
+    expect(findAgent('agent_other')).toBeUndefined()
+  })
+
+  it('only allows the default agent when RETELL_AGENTS is not valid JSON', async () => {
+    const { getAgentCatalogue } = await loadConfig({ RETELL_AGENT_ID: 'agent_default', RETELL_AGENTS: '{not json' })
+
+    expect(getAgentCatalogue()).toEqual([{ id: 'agent_default', name: 'agent_default' }])
+  })
+
+  it('lists the dynamic variables callers may set', async () => {
+    const { serverRetellConfig } = await loadConfig({ RETELL_DYNAMIC_VARIABLES: 'account_tier, order_id' })
+
+    expect(serverRetellConfig.allowedDynamicVariables).toEqual(['account_tier', 'order_id'])
+  })
+})
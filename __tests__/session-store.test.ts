@@ -0,0 +1,62 @@
+/**
+ * @jest-environment node
+ */
+import 'fake-indexeddb/auto'
+import { clearSessions, getSession, listSessions, saveSession } from '@/lib/session-store'
+import type { VoiceBotSession } from '@/types/voice-bot'
+
+function makeSession(callId: string, updatedAt: string, content = 'Hello'): VoiceBotSession {
+  return {
+    callId,
+    startedAt: new Date('2024-05-01T10:00:00.000Z'),
+    updatedAt: new Date(updatedAt),
+    messages: [{
+      id: `${callId}-1`,
+      type: 'transcription',
+      role: 'user',
+      content,
+      timestamp: new Date('2024-05-01T10:00:05.000Z'),
+      isComplete: true
+    }]
+  }
+}
+
+describe('session store', () => {
+  beforeEach(async () => {
+    await clearSessions()
+  })
+
+  it('saves a session under its call_id and reads it back with its dates', async () => {
+    const session = makeSession('call_1', '2024-05-01T10:01:00.000Z')
+    await saveSession(session)
+
+    const stored = await getSession('call_1')
+    expect(stored).toEqual(session)
+    expect(stored?.updatedAt.getTime()).toBe(session.updatedAt.getTime())
+    expect(await getSession('call_missing')).toBeUndefined()
+  })
+
+  it('replaces a session saved again for the same call', async () => {
+    await saveSession(makeSession('call_1', '2024-05-01T10:01:00.000Z', 'Hello'))
+    await saveSession(makeSession('call_1', '2024-05-01T10:02:00.000Z', 'Hello again'))
+
+    const sessions = await listSessions()
+    expect(sessions).toHaveLength(1)
+    expect(sessions[0].messages[0].content).toBe('Hello again')
+  })
+
+  it('lists the most recently updated sessions first', async () => {
+    await saveSession(makeSession('call_old', '2024-05-01T09:00:00.000Z'))
+    await saveSession(makeSession('call_new', '2024-05-02T09:00:00.000Z'))
+    await saveSession(makeSession('call_mid', '2024-05-01T12:00:00.000Z'))
+
+    expect((await listSessions()).map(session => session.callId)).toEqual(['call_new', 'call_mid', 'call_old'])
+  })
+
+  it('clears every session', async () => {
+    await saveSession(makeSession('call_1', '2024-05-01T10:01:00.000Z'))
+    await clearSessions()
+
+    expect(await listSessions()).toEqual([])
+  })
+})
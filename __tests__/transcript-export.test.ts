@@ -0,0 +1,83 @@
+import { downloadTranscript, formatTranscript } from '@/lib/transcript-export'
+import type { Message } from '@/types/voice-bot'
+
+const callStartedAt = new Date('2024-05-01T10:00:00.000Z')
+
+const at = (seconds: number) => new Date(callStartedAt.getTime() + seconds * 1000)
+
+const messages: Message[] = [
+  { id: '1', type: 'system', content: 'Wake word detected! Starting conversation...', timestamp: at(-2), isComplete: true },
+  { id: '2', type: 'transcription', role: 'assistant', content: 'Hi there, how can I help?', timestamp: at(1.5), isComplete: true },
+  { id: '3', type: 'transcription', role: 'user', content: 'What time is it?', timestamp: at(3), isComplete: true },
+]
+
+describe('formatTranscript', () => {
+  it('writes SRT cues for spoken messages relative to the call start', () => {
+    expect(formatTranscript(messages, 'srt', callStartedAt)).toBe([
+      '1',
+      '00:00:01,500 --> 00:00:03,000',
+      'Assistant: Hi there, how can I help?',
+      '',
+      '2',
+      '00:00:03,000 --> 00:00:04,600',
+      'You: What time is it?',
+      '',
+    ].join('\n'))
+  })
+
+  it('writes WebVTT with voice tags', () => {
+    const vtt = formatTranscript(messages, 'vtt', callStartedAt)
+
+    expect(vtt.startsWith('WEBVTT\n\n')).toBe(true)
+    expect(vtt).toContain('00:00:01.500 --> 00:00:03.000\n<v Assistant>Hi there, how can I help?')
+  })
+
+  it('escapes markup characters in WebVTT cue text', () => {
+    const vtt = formatTranscript([
+      { id: '1', type: 'transcription', role: 'user', content: 'Is 3 < 4 & 5 --> 6?', timestamp: at(1), isComplete: true },
+    ], 'vtt', callStartedAt)
+
+    expect(vtt).toContain('<v You>Is 3 &lt; 4 &amp; 5 --&gt; 6?')
+  })
+
+  it('keeps system messages and timestamps in JSON', () => {
+    const parsed = JSON.parse(formatTranscript(messages, 'json', callStartedAt))
+
+    expect(parsed.callStartedAt).toBe('2024-05-01T10:00:00.000Z')
+    expect(parsed.messages).toHaveLength(3)
+    expect(parsed.messages[0]).toMatchObject({ type: 'system', timestamp: '2024-05-01T09:59:58.000Z' })
+  })
+
+  it('labels speakers and offsets in Markdown', () => {
+    const markdown = formatTranscript(messages, 'markdown', callStartedAt)
+
+    expect(markdown).toContain('_00:00 · Wake word detected! Starting conversation..._')
+    expect(markdown).toContain('**You** (00:03): What time is it?')
+  })
+})
+
+describe('downloadTranscript', () => {
+  const createObjectURL = jest.fn(() => 'blob:transcript')
+  const revokeObjectURL = jest.fn()
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    Object.assign(URL, { createObjectURL, revokeObjectURL })
+    jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  it('keeps the blob URL alive until the download has started', () => {
+    downloadTranscript(messages, 'markdown', callStartedAt)
+
+    expect(HTMLAnchorElement.prototype.click).toHaveBeenCalled()
+    expect(revokeObjectURL).not.toHaveBeenCalled()
+
+    jest.runAllTimers()
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:transcript')
+  })
+})
@@ -0,0 +1,22 @@
+import { formatLatency, summarizeTurnLatencies } from '@/lib/turn-latency'
+
+describe('summarizeTurnLatencies', () => {
+  it('returns null before the first turn', () => {
+    expect(summarizeTurnLatencies([])).toBeNull()
+  })
+
+  it('summarises the latencies of a call', () => {
+    expect(summarizeTurnLatencies([900, 400, 1200, 700, 3000])).toEqual({
+      turns: 5,
+      lastMs: 3000,
+      averageMs: 1240,
+      medianMs: 900,
+      p90Ms: 3000
+    })
+  })
+
+  it('formats short and long latencies', () => {
+    expect(formatLatency(640)).toBe('640 ms')
+    expect(formatLatency(1450)).toBe('1.4 s')
+  })
+})
@@ -0,0 +1,84 @@
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { useAudioDevices } from '@/hooks/use-audio-devices'
+
+function device(kind: MediaDeviceKind, deviceId: string, label = ''): MediaDeviceInfo {
+  return { kind, deviceId, label, groupId: '', toJSON: () => ({}) }
+}
+
+const builtIn = [
+  device('audioinput', 'default', 'Default'),
+  device('audioinput', 'mic-laptop', 'Laptop microphone'),
+  device('audiooutput', 'speaker-laptop', 'Laptop speakers'),
+]
+const headset = [device('audioinput', 'mic-headset', 'Headset'), device('audiooutput', 'speaker-headset', 'Headset')]
+
+describe('useAudioDevices', () => {
+  let currentDevices: MediaDeviceInfo[]
+  const mediaDevices = new EventTarget() as EventTarget & { enumerateDevices: () => Promise<MediaDeviceInfo[]> }
+  mediaDevices.enumerateDevices = () => Promise.resolve(currentDevices)
+
+  beforeAll(() => {
+    Object.defineProperty(navigator, 'mediaDevices', { value: mediaDevices, configurable: true })
+  })
+
+  beforeEach(() => {
+    currentDevices = [...builtIn, ...headset]
+    window.localStorage.clear()
+  })
+
+  async function plug(devices: MediaDeviceInfo[]) {
+    currentDevices = devices
+    await act(async () => {
+      mediaDevices.dispatchEvent(new Event('devicechange'))
+    })
+  }
+
+  it('lists microphones and speakers without the default alias', async () => {
+    const { result } = renderHook(() => useAudioDevices())
+
+    await waitFor(() => expect(result.current.inputs).toHaveLength(2))
+    expect(result.current.inputs.map(input => input.deviceId)).toEqual(['mic-laptop', 'mic-headset'])
+    expect(result.current.outputs.map(output => output.label)).toEqual(['Laptop speakers', 'Headset'])
+    expect(result.current.selection).toEqual({ captureDeviceId: 'default', playbackDeviceId: 'default' })
+  })
+
+  it('numbers devices whose labels are hidden before permission is granted', async () => {
+    currentDevices = [device('audioinput', 'mic-a'), device('audioinput', 'mic-b')]
+    const { result } = renderHook(() => useAudioDevices())
+
+    await waitFor(() => expect(result.current.inputs.map(input => input.label)).toEqual(['Microphone 1', 'Microphone 2']))
+  })
+
+  it('remembers the chosen devices across sessions', async () => {
+    const first = renderHook(() => useAudioDevices())
+    await waitFor(() => expect(first.result.current.inputs).toHaveLength(2))
+    act(() => {
+      first.result.current.selectDevices({ captureDeviceId: 'mic-headset' })
+    })
+    first.unmount()
+
+    const { result } = renderHook(() => useAudioDevices())
+    await waitFor(() => expect(result.current.selection.captureDeviceId).toBe('mic-headset'))
+  })
+
+  it('falls back to the default while a chosen device is unplugged and restores it afterwards', async () => {
+    const onDeviceLost = jest.fn()
+    const { result } = renderHook(() => useAudioDevices({ onDeviceLost }))
+    await waitFor(() => expect(result.current.inputs).toHaveLength(2))
+    act(() => {
+      result.current.selectDevices({ captureDeviceId: 'mic-headset', playbackDeviceId: 'speaker-headset' })
+    })
+
+    await plug(builtIn)
+
+    expect(onDeviceLost).toHaveBeenCalledWith('input', { deviceId: 'mic-headset', label: 'Headset' })
+    expect(onDeviceLost).toHaveBeenCalledWith('output', { deviceId: 'speaker-headset', label: 'Headset' })
+    expect(result.current.selection).toEqual({ captureDeviceId: 'default', playbackDeviceId: 'default' })
+    expect(result.current.isUsingFallback).toBe(true)
+
+    await plug([...builtIn, ...headset])
+
+    expect(result.current.selection).toEqual({ captureDeviceId: 'mic-headset', playbackDeviceId: 'speaker-headset' })
+    expect(result.current.isUsingFallback).toBe(false)
+  })
+})
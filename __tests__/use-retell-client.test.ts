@@ -0,0 +1,475 @@
+import { act, renderHook } from '@testing-library/react'
+import { useRetellClient } from '@/hooks/use-retell-client'
+import type { CallLimits } from '@/lib/call-limits'
+
+// Every client instance keeps its own listeners, like the SDK's event emitter
+const mockClients: { handlers: Record<string, Function[]> }[] = []
+const mockStartCall = jest.fn()
+const mockStopCall = jest.fn()
+
+jest.mock('retell-client-js-sdk', () => ({
+  RetellWebClient: jest.fn().mockImplementation(() => {
+    const handlers: Record<string, Function[]> = {}
+    const client = {
+      handlers,
+      on: (event: string, handler: Function) => {
+        handlers[event] = [...(handlers[event] || []), handler]
+      },
+      off: (event: string, handler: Function) => {
+        handlers[event] = (handlers[event] || []).filter(item => item !== handler)
+      },
+      removeAllListeners: () => {
+        Object.keys(handlers).forEach(key => delete handlers[key])
+      },
+      startCall: mockStartCall,
+      stopCall: mockStopCall,
+      mute: jest.fn(),
+      unmute: jest.fn()
+    }
+    mockClients.push(client)
+    return client
+  })
+}))
+
+// Events come from the newest client, which is the one the hook is using
+function emit(event: string, payload?: unknown) {
+  mockClients.at(-1)?.handlers[event]?.forEach(handler => handler(payload))
+}
+
+async function advance(ms: number) {
+  await act(async () => {
+    await jest.advanceTimersByTimeAsync(ms)
+  })
+}
+
+function renderClient(limits: Partial<CallLimits> = {}) {
+  const options = {
+    retryPolicy: { retries: 2, baseDelayMs: 1000, maxDelayMs: 8000 },
+    limits: { minDurationMs: 10000, inactivityTimeoutMs: 60000, maxDurationMs: 0, warningMs: 15000, ...limits },
+    onRetryChange: jest.fn(),
+    onTimeoutWarning: jest.fn(),
+    onConnectionLost: jest.fn(),
+    onCallStarted: jest.fn(),
+    onCallEnded: jest.fn(),
+    onError: jest.fn(),
+    onCallStateChange: jest.fn(),
+    onTranscriptUpdate: jest.fn(),
+    onResponseUpdate: jest.fn(),
+    onSentenceComplete: jest.fn(),
+    onMuteChange: jest.fn()
+  }
+  const hook = renderHook(() => useRetellClient(options))
+  return { ...hook, options }
+}
+
+describe('useRetellClient call lifecycle', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    mockClients.length = 0
+    mockStartCall.mockReset().mockResolvedValue(undefined)
+    mockStopCall.mockReset()
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ access_token: 'token', call_id: 'call_1' })
+    })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  it('goes through connecting, ongoing, ending and ended', async () => {
+    const { result, options } = renderClient()
+    expect(result.current.callState).toBe('idle')
+
+    act(() => {
+      result.current.startCall()
+    })
+    expect(result.current.callState).toBe('connecting')
+
+    await advance(500)
+    expect(result.current.callState).toBe('ongoing')
+    expect(options.onCallStarted).toHaveBeenCalledWith('call_1')
+
+    await advance(10000)
+    act(() => {
+      result.current.endCall()
+    })
+    expect(result.current.callState).toBe('ending')
+
+    await advance(500)
+    expect(mockStopCall).toHaveBeenCalled()
+    act(() => {
+      emit('call_ended')
+    })
+
+    expect(result.current.callState).toBe('ended')
+    expect(options.onCallEnded).toHaveBeenCalledTimes(1)
+    expect(options.onCallStateChange.mock.calls.map(([state]) => state))
+      .toEqual(['connecting', 'ongoing', 'ending', 'ended'])
+  })
+
+  it('keeps handling events after connecting again with the same callbacks', async () => {
+    const { result, options } = renderClient()
+
+    for (const callId of ['call_1', 'call_2']) {
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ access_token: 'token', call_id: callId })
+      })
+      act(() => {
+        result.current.startCall()
+      })
+      await advance(500)
+      expect(result.current.callState).toBe('ongoing')
+
+      act(() => {
+        emit('update', { transcript: [{ role: 'user', content: `Hello from ${callId}` }] })
+        emit('call_ended')
+      })
+      expect(result.current.callState).toBe('ended')
+    }
+
+    expect(options.onTranscriptUpdate).toHaveBeenLastCalledWith('user', 'Hello from call_2')
+    expect(options.onCallEnded).toHaveBeenCalledTimes(2)
+  })
+
+  it('ignores a request to end while still connecting', async () => {
+    const { result } = renderClient()
+
+    act(() => {
+      result.current.startCall()
+      result.current.endCall()
+    })
+    expect(result.current.callState).toBe('connecting')
+
+    await advance(500)
+    expect(result.current.callState).toBe('ongoing')
+    expect(mockStopCall).not.toHaveBeenCalled()
+  })
+
+  it('ignores a second start while a call is connecting or ongoing', async () => {
+    const { result } = renderClient()
+
+    act(() => {
+      result.current.startCall()
+      result.current.startCall()
+    })
+    await advance(500)
+    act(() => {
+      result.current.startCall()
+    })
+    await advance(500)
+
+    expect(global.fetch).toHaveBeenCalledTimes(1)
+    expect(result.current.callState).toBe('ongoing')
+  })
+
+  it('moves to error when setup fails and allows another attempt', async () => {
+    const { result, options } = renderClient()
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: false,
+      status: 400,
+      json: () => Promise.resolve({ error: 'Retell is down' })
+    })
+
+    act(() => {
+      result.current.startCall()
+    })
+    await advance(500)
+
+    expect(result.current.callState).toBe('error')
+    expect(options.onError).toHaveBeenCalledWith('Retell is down')
+    expect(options.onCallStarted).not.toHaveBeenCalled()
+
+    act(() => {
+      result.current.startCall()
+    })
+    await advance(500)
+    expect(result.current.callState).toBe('ongoing')
+  })
+
+  it('ignores a call_ended event when no call is running', () => {
+    const { result, options } = renderClient()
+
+    act(() => {
+      emit('call_ended')
+    })
+
+    expect(result.current.callState).toBe('idle')
+    expect(options.onCallEnded).not.toHaveBeenCalled()
+  })
+})
+
+describe('useRetellClient call setup retries', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    // No jitter: each delay is the full backoff
+    jest.spyOn(Math, 'random').mockReturnValue(1)
+    mockClients.length = 0
+    mockStartCall.mockReset().mockResolvedValue(undefined)
+    mockStopCall.mockReset()
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ access_token: 'token', call_id: 'call_1' })
+    })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  function failWith(status: number) {
+    return { ok: false, status, json: () => Promise.resolve({ error: `HTTP ${status}` }) }
+  }
+
+  it('retries server errors with exponential backoff and reports a countdown', async () => {
+    const { result, options } = renderClient()
+    ;(global.fetch as jest.Mock)
+      .mockResolvedValueOnce(failWith(503))
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+
+    act(() => {
+      result.current.startCall()
+    })
+    await advance(500)
+    expect(options.onRetryChange).toHaveBeenLastCalledWith(expect.objectContaining({ attempt: 1, retries: 2, reason: 'HTTP 503' }))
+    expect(result.current.callState).toBe('connecting')
+
+    await advance(1000)
+    expect(options.onRetryChange).toHaveBeenLastCalledWith(expect.objectContaining({ attempt: 2, reason: 'Failed to fetch' }))
+
+    await advance(2000)
+    expect(result.current.callState).toBe('ongoing')
+    expect(options.onRetryChange).toHaveBeenLastCalledWith(null)
+    expect(global.fetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('does not retry when the SDK fails to connect', async () => {
+    const { result, options } = renderClient()
+    mockStartCall.mockImplementationOnce(async () => {
+      emit('error', 'Error starting call')
+    })
+
+    act(() => {
+      result.current.startCall()
+    })
+    await advance(500)
+
+    expect(result.current.callState).toBe('error')
+    expect(options.onError).toHaveBeenCalledWith('Error starting call')
+    expect(global.fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not retry requests the server rejected', async () => {
+    const { result, options } = renderClient()
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce(failWith(403))
+
+    act(() => {
+      result.current.startCall()
+    })
+    await advance(500)
+
+    expect(result.current.callState).toBe('error')
+    expect(options.onError).toHaveBeenCalledWith('HTTP 403')
+    expect(options.onRetryChange).not.toHaveBeenCalledWith(expect.objectContaining({ attempt: 1 }))
+  })
+
+  it('stops after the last retry or when cancelled', async () => {
+    const { result, options } = renderClient()
+    ;(global.fetch as jest.Mock).mockResolvedValue(failWith(429))
+
+    act(() => {
+      result.current.startCall()
+    })
+    await advance(500 + 1000 + 2000)
+    expect(result.current.callState).toBe('error')
+    expect(global.fetch).toHaveBeenCalledTimes(3)
+
+    act(() => {
+      result.current.startCall()
+    })
+    await advance(500)
+    act(() => {
+      result.current.cancelRetry()
+    })
+    await advance(0)
+
+    expect(result.current.callState).toBe('error')
+    expect(options.onError).toHaveBeenLastCalledWith('Call setup was cancelled')
+    expect(global.fetch).toHaveBeenCalledTimes(4)
+  })
+
+  it('leaves the call when cancelled while a retry is connecting', async () => {
+    const { result, options } = renderClient()
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce(failWith(503))
+    let finishConnecting = () => {}
+    mockStartCall.mockImplementationOnce(() => new Promise<void>(resolve => {
+      finishConnecting = resolve
+    }))
+
+    act(() => {
+      result.current.startCall()
+    })
+    await advance(500 + 1000)
+    // The retry is running, so the countdown is gone
+    expect(options.onRetryChange).toHaveBeenLastCalledWith(null)
+    expect(mockStartCall).toHaveBeenCalledTimes(1)
+
+    act(() => {
+      result.current.cancelRetry()
+    })
+    await act(async () => {
+      finishConnecting()
+    })
+
+    expect(result.current.callState).toBe('error')
+    expect(options.onError).toHaveBeenLastCalledWith('Call setup was cancelled')
+    expect(options.onCallStarted).not.toHaveBeenCalled()
+    expect(mockStopCall).toHaveBeenCalled()
+  })
+
+  it('reconnects after a network drop, linking the new call to the old one', async () => {
+    const { result, options } = renderClient()
+
+    act(() => {
+      result.current.startCall({ agentId: 'agent_1' })
+    })
+    await advance(500)
+    act(() => {
+      window.dispatchEvent(new Event('offline'))
+      emit('call_ended')
+    })
+
+    expect(options.onConnectionLost).toHaveBeenCalledWith('call_1')
+    expect(result.current.callState).toBe('connecting')
+
+    await advance(500)
+    expect(result.current.callState).toBe('ongoing')
+    expect(JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body))
+      .toEqual({ agentId: 'agent_1', previousCallId: 'call_1' })
+  })
+
+  it('does not reconnect after a normal hang-up', async () => {
+    const { result, options } = renderClient()
+
+    act(() => {
+      result.current.startCall()
+    })
+    await advance(500)
+    act(() => {
+      emit('call_ended')
+    })
+
+    expect(result.current.callState).toBe('ended')
+    expect(options.onConnectionLost).not.toHaveBeenCalled()
+  })
+})
+
+describe('useRetellClient call limits', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    mockClients.length = 0
+    mockStartCall.mockReset().mockResolvedValue(undefined)
+    mockStopCall.mockReset()
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ access_token: 'token', call_id: 'call_1' })
+    })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  async function connect(limits: Partial<CallLimits> = {}) {
+    const client = renderClient(limits)
+    act(() => {
+      client.result.current.startCall()
+    })
+    await advance(500)
+    expect(client.result.current.callState).toBe('ongoing')
+    return client
+  }
+
+  it('hangs up on request inside the minimum duration', async () => {
+    const { result } = await connect()
+
+    act(() => {
+      result.current.endCall()
+    })
+    await advance(500)
+
+    expect(result.current.callState).toBe('ending')
+    expect(mockStopCall).toHaveBeenCalled()
+  })
+
+  it('warns before hanging up an inactive call', async () => {
+    const { result, options } = await connect()
+
+    await advance(45000)
+    expect(options.onTimeoutWarning).toHaveBeenLastCalledWith({ reason: 'inactivity', endsAt: Date.now() + 15000 })
+    expect(mockStopCall).not.toHaveBeenCalled()
+
+    await advance(15000 + 500)
+    expect(result.current.callState).toBe('ending')
+    expect(mockStopCall).toHaveBeenCalled()
+    expect(options.onTimeoutWarning).toHaveBeenLastCalledWith(null)
+  })
+
+  it('restarts the inactivity countdown when the user is still there or someone speaks', async () => {
+    const { result, options } = await connect()
+
+    await advance(50000)
+    act(() => {
+      result.current.keepAlive()
+    })
+    expect(options.onTimeoutWarning).toHaveBeenLastCalledWith(null)
+
+    await advance(40000)
+    act(() => {
+      emit('update', { transcript: [{ role: 'user', content: 'Hello?' }] })
+    })
+    await advance(40000)
+
+    expect(result.current.callState).toBe('ongoing')
+    expect(mockStopCall).not.toHaveBeenCalled()
+  })
+
+  it('never hangs up automatically inside the minimum duration', async () => {
+    const { result } = await connect({ inactivityTimeoutMs: 2000, warningMs: 1000 })
+
+    await advance(9000)
+    expect(result.current.callState).toBe('ongoing')
+
+    await advance(1500)
+    expect(result.current.callState).toBe('ending')
+  })
+
+  it('ends the call at the maximum duration regardless of activity', async () => {
+    const { result, options } = await connect({ maxDurationMs: 120000 })
+
+    for (const content of ['One', 'Two', 'Three', 'Four']) {
+      await advance(27500)
+      act(() => {
+        emit('update', { transcript: [{ role: 'user', content }] })
+      })
+    }
+    expect(options.onTimeoutWarning).toHaveBeenLastCalledWith(expect.objectContaining({ reason: 'max-duration' }))
+
+    act(() => {
+      result.current.keepAlive()
+    })
+    await advance(10000 + 500)
+
+    expect(result.current.callState).toBe('ending')
+  })
+})
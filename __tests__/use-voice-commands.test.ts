@@ -0,0 +1,98 @@
+import { act, renderHook } from '@testing-library/react'
+import { useVoiceCommands } from '@/hooks/use-voice-commands'
+import { DEFAULT_VOICE_COMMANDS, getVoiceCommandsForLocale } from '@/lib/voice-commands'
+import { ScriptedWakeWordEngine, ScriptedWakeWordStep } from '@/lib/scripted-wake-word-engine'
+
+describe('useVoiceCommands', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  function renderCommands(script: ScriptedWakeWordStep[], isActive = true, locale = 'en-US') {
+    const engine = new ScriptedWakeWordEngine(script)
+    const onCommand = jest.fn()
+    const hook = renderHook(
+      ({ active }) => useVoiceCommands({
+        isActive: active,
+        commands: getVoiceCommandsForLocale(DEFAULT_VOICE_COMMANDS, locale),
+        lang: locale,
+        onCommand,
+        onError: jest.fn(),
+        engine
+      }),
+      { initialProps: { active: isActive } }
+    )
+    return { ...hook, engine, onCommand }
+  }
+
+  it('maps recognised phrases to their actions', () => {
+    const { onCommand } = renderCommands([{ delayMs: 100, transcript: 'okay goodbye assistant', confidence: 0.9 }])
+
+    act(() => {
+      jest.advanceTimersByTime(600)
+    })
+
+    expect(onCommand).toHaveBeenCalledWith({ phrase: 'goodbye assistant', action: 'end-call', locale: 'en' })
+  })
+
+  it('tells mute and unmute apart', () => {
+    const { onCommand } = renderCommands([{ delayMs: 100, transcript: 'unmute', confidence: 0.9 }])
+
+    act(() => {
+      jest.advanceTimersByTime(600)
+    })
+
+    expect(onCommand).toHaveBeenCalledWith(expect.objectContaining({ action: 'unmute' }))
+  })
+
+  it('keeps listening after each command while active', () => {
+    const { engine, onCommand, rerender } = renderCommands([{ delayMs: 100, transcript: 'mute', confidence: 0.9 }])
+
+    act(() => {
+      jest.advanceTimersByTime(800)
+    })
+    expect(onCommand.mock.calls.length).toBeGreaterThan(1)
+    expect(engine.isRunning).toBe(true)
+
+    rerender({ active: false })
+    expect(engine.isRunning).toBe(false)
+  })
+
+  it('recognises the phrases of the call language', () => {
+    const spanish = renderCommands([{ delayMs: 100, transcript: 'adiós asistente', confidence: 0.9 }], true, 'es-ES')
+    const chinese = renderCommands([{ delayMs: 100, transcript: '请取消静音', confidence: 0.9 }], true, 'zh-CN')
+
+    act(() => {
+      jest.advanceTimersByTime(600)
+    })
+
+    expect(spanish.onCommand).toHaveBeenCalledWith(expect.objectContaining({ action: 'end-call', locale: 'es' }))
+    expect(chinese.onCommand).toHaveBeenCalledWith(expect.objectContaining({ action: 'unmute', locale: 'zh' }))
+  })
+
+  it('only listens for the phrases of the call language', () => {
+    const { onCommand } = renderCommands([{ delayMs: 100, transcript: 'goodbye assistant', confidence: 0.9 }], true, 'es-ES')
+
+    act(() => {
+      jest.advanceTimersByTime(600)
+    })
+
+    expect(onCommand).not.toHaveBeenCalled()
+  })
+
+  it('ignores everyday speech', () => {
+    const { onCommand } = renderCommands([{ delayMs: 100, transcript: 'I would like to book an appointment', confidence: 0.9 }])
+
+    act(() => {
+      jest.advanceTimersByTime(600)
+    })
+
+    expect(onCommand).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,80 @@
+import { act, renderHook } from '@testing-library/react'
+import { useWakeWordDetection } from '@/hooks/use-wake-word-detection'
+import { ScriptedWakeWordEngine } from '@/lib/scripted-wake-word-engine'
+import type { WakeWordConfig } from '@/types/voice-bot'
+
+const wakeWords: WakeWordConfig[] = [{ phrase: 'hey assistant', startMuted: true }]
+
+describe('useWakeWordDetection', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  function renderDetection(engine: ScriptedWakeWordEngine, isActive = true) {
+    const onWakeWordDetected = jest.fn()
+    const onError = jest.fn()
+    const hook = renderHook(
+      ({ active }) => useWakeWordDetection({
+        isActive: active,
+        wakeWords,
+        sensitivity: 0.5,
+        onWakeWordDetected,
+        onError,
+        engine
+      }),
+      { initialProps: { active: isActive } }
+    )
+    return { ...hook, onWakeWordDetected, onError }
+  }
+
+  it('reports the detected wake word with its actions', () => {
+    const engine = new ScriptedWakeWordEngine([{ delayMs: 1000, transcript: 'hey assistant', confidence: 0.9 }])
+    const { onWakeWordDetected } = renderDetection(engine)
+
+    act(() => {
+      jest.advanceTimersByTime(1500)
+    })
+
+    expect(onWakeWordDetected).toHaveBeenCalledWith(wakeWords[0])
+  })
+
+  it('forwards engine errors', () => {
+    const engine = new ScriptedWakeWordEngine([{ delayMs: 100, error: 'audio-capture' }])
+    const { onError } = renderDetection(engine)
+
+    act(() => {
+      jest.advanceTimersByTime(600)
+    })
+
+    expect(onError).toHaveBeenCalledWith('audio-capture')
+  })
+
+  it('only listens while active', () => {
+    const engine = new ScriptedWakeWordEngine([{ delayMs: 1000, transcript: 'hey assistant' }])
+    const { rerender, onWakeWordDetected } = renderDetection(engine, false)
+
+    act(() => {
+      jest.advanceTimersByTime(2000)
+    })
+    expect(engine.isRunning).toBe(false)
+
+    rerender({ active: true })
+    act(() => {
+      jest.advanceTimersByTime(500)
+    })
+    expect(engine.isRunning).toBe(true)
+
+    rerender({ active: false })
+    act(() => {
+      jest.advanceTimersByTime(2000)
+    })
+    expect(engine.isRunning).toBe(false)
+    expect(onWakeWordDetected).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,182 @@
+import { ScriptedWakeWordEngine } from '@/lib/scripted-wake-word-engine'
+import { WebSpeechWakeWordEngine } from '@/lib/web-speech-wake-word-engine'
+import type { WakeWordConfig } from '@/types/voice-bot'
+
+const wakeWords: WakeWordConfig[] = [{ phrase: 'hey assistant' }, { phrase: 'hello intake', agentId: 'agent_intake' }]
+
+describe('ScriptedWakeWordEngine', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  function createEngine(...args: ConstructorParameters<typeof ScriptedWakeWordEngine>) {
+    const engine = new ScriptedWakeWordEngine(...args)
+    engine.configure({ wakeWords, sensitivity: 0.5 })
+    const onDetected = jest.fn()
+    const onError = jest.fn()
+    engine.onDetected(onDetected)
+    engine.onError(onError)
+    return { engine, onDetected, onError }
+  }
+
+  it('replays results on schedule and stops after a detection', () => {
+    const { engine, onDetected } = createEngine([
+      { delayMs: 1000, transcript: 'good morning', confidence: 0.9 },
+      { delayMs: 1000, transcript: 'hello in take', confidence: 0.9 },
+      { delayMs: 1000, transcript: 'hey assistant', confidence: 0.9 },
+    ])
+
+    engine.start()
+    jest.advanceTimersByTime(1000)
+    expect(onDetected).not.toHaveBeenCalled()
+
+    jest.advanceTimersByTime(1000)
+    expect(onDetected).toHaveBeenCalledTimes(1)
+    expect(onDetected.mock.calls[0][0].wakeWord).toEqual(wakeWords[1])
+    expect(engine.isRunning).toBe(false)
+
+    // The rest of the script is not played once detection has stopped the engine
+    jest.advanceTimersByTime(5000)
+    expect(onDetected).toHaveBeenCalledTimes(1)
+  })
+
+  it('reports scripted errors and keeps going', () => {
+    const { engine, onDetected, onError } = createEngine([
+      { delayMs: 100, error: 'network' },
+      { delayMs: 100, transcript: 'hey assistant' },
+    ])
+
+    engine.start()
+    jest.advanceTimersByTime(200)
+
+    expect(onError).toHaveBeenCalledWith('network')
+    expect(onDetected).toHaveBeenCalledTimes(1)
+  })
+
+  it('plays nothing after stop()', () => {
+    const { engine, onDetected } = createEngine([{ delayMs: 100, transcript: 'hey assistant' }])
+
+    engine.start()
+    engine.stop()
+    jest.advanceTimersByTime(1000)
+
+    expect(onDetected).not.toHaveBeenCalled()
+  })
+
+  it('loops the script when asked to', () => {
+    const { engine, onError } = createEngine([{ delayMs: 100, error: 'no-match' }], { loop: true })
+
+    engine.start()
+    jest.advanceTimersByTime(350)
+
+    expect(onError).toHaveBeenCalledTimes(3)
+    expect(engine.isRunning).toBe(true)
+  })
+
+  it('lets transcripts depend on the configured wake words', () => {
+    const { engine, onDetected } = createEngine([
+      { delayMs: 100, transcript: config => config.wakeWords[1].phrase, confidence: 0.9 },
+    ])
+
+    engine.start()
+    jest.advanceTimersByTime(100)
+
+    expect(onDetected.mock.calls[0][0].transcript).toBe('hello intake')
+  })
+
+  it('stops calling handlers once they unsubscribe or the engine is disposed', () => {
+    const engine = new ScriptedWakeWordEngine([{ delayMs: 100, error: 'network' }], { loop: true })
+    const first = jest.fn()
+    const second = jest.fn()
+    const unsubscribe = engine.onError(first)
+    engine.onError(second)
+
+    engine.start()
+    jest.advanceTimersByTime(100)
+    unsubscribe()
+    jest.advanceTimersByTime(100)
+    engine.dispose()
+    jest.advanceTimersByTime(100)
+
+    expect(first).toHaveBeenCalledTimes(1)
+    expect(second).toHaveBeenCalledTimes(2)
+  })
+})
+
+// Enough of the Web Speech API to drive the engine: results and onend are delivered by hand
+class FakeSpeechRecognition {
+  static instances: FakeSpeechRecognition[] = []
+  lang = ''
+  continuous = false
+  interimResults = false
+  maxAlternatives = 1
+  onresult: ((event: unknown) => void) | null = null
+  onend: (() => void) | null = null
+  onerror: ((event: unknown) => void) | null = null
+  start = jest.fn()
+  stop = jest.fn()
+
+  constructor() {
+    FakeSpeechRecognition.instances.push(this)
+  }
+
+  // Deliver every transcript so far as one final result each, like a continuous session
+  say(...transcripts: string[]) {
+    const results = transcripts.map(transcript => Object.assign([{ transcript, confidence: 0.9 }], { isFinal: true }))
+    this.onresult?.({ resultIndex: transcripts.length - 1, results })
+  }
+}
+
+describe('WebSpeechWakeWordEngine', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+    FakeSpeechRecognition.instances = []
+    Object.assign(window, { SpeechRecognition: FakeSpeechRecognition })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    delete (window as { SpeechRecognition?: unknown }).SpeechRecognition
+  })
+
+  function createEngine() {
+    const engine = new WebSpeechWakeWordEngine()
+    engine.configure({ wakeWords, sensitivity: 0.5, lang: 'es-ES' })
+    const onDetected = jest.fn()
+    engine.onDetected(onDetected)
+    engine.start()
+    return { engine, onDetected, recognition: FakeSpeechRecognition.instances[0] }
+  }
+
+  it('listens in the configured language and detects a phrase once', () => {
+    const { onDetected, recognition } = createEngine()
+
+    expect(recognition.lang).toBe('es-ES')
+    recognition.say('hey assistant')
+
+    expect(onDetected).toHaveBeenCalledTimes(1)
+    expect(recognition.stop).toHaveBeenCalled()
+  })
+
+  it('ignores results the stopped session still delivers after listening again', () => {
+    const { engine, onDetected, recognition } = createEngine()
+
+    recognition.say('hey assistant')
+    // Resume straight away, as the voice command hook does after each command
+    engine.start()
+    recognition.say('hey assistant')
+    recognition.say('hey assistant', 'thanks')
+    expect(onDetected).toHaveBeenCalledTimes(1)
+
+    // Once the old session has ended, a new one starts and is listened to
+    recognition.onend?.()
+    jest.advanceTimersByTime(1000)
+    expect(recognition.start).toHaveBeenCalledTimes(2)
+    recognition.say('hey assistant')
+    expect(onDetected).toHaveBeenCalledTimes(2)
+  })
+})
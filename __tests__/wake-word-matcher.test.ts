@@ -0,0 +1,160 @@
+import {
+  editDistance,
+  getMatchThreshold,
+  matchWakeWord,
+  phoneticKey,
+  phraseSimilarity,
+  RecognitionSegment,
+  tokenSimilarity,
+} from '@/lib/wake-word-matcher'
+import type { WakeWordConfig } from '@/types/voice-bot'
+
+const NOW = 1_700_000_000_000
+const wakeWords: WakeWordConfig[] = [{ phrase: 'hey assistant' }]
+
+function segment(transcript: string, confidence = 0.9, ageMs = 0, ...others: string[]): RecognitionSegment {
+  return {
+    alternatives: [transcript, ...others].map(text => ({ transcript: text, confidence })),
+    receivedAt: NOW - ageMs,
+  }
+}
+
+describe('editDistance', () => {
+  it('counts insertions, deletions and substitutions', () => {
+    expect(editDistance('kitten', 'sitting')).toBe(3)
+    expect(editDistance('', 'abc')).toBe(3)
+    expect(editDistance('abc', '')).toBe(3)
+    expect(editDistance('same', 'same')).toBe(0)
+  })
+})
+
+describe('phoneticKey', () => {
+  it('gives similar-sounding words the same key', () => {
+    expect(phoneticKey('Robert')).toBe(phoneticKey('Rupert'))
+    expect(phoneticKey('Ashcraft')).toBe('a2613')
+  })
+
+  it('keeps the whole word rather than truncating to four characters', () => {
+    expect(phoneticKey('assistant')).not.toBe(phoneticKey('assistance'))
+  })
+})
+
+describe('tokenSimilarity', () => {
+  it('is 1 for identical words and lower for near-misses', () => {
+    expect(tokenSimilarity('assistant', 'assistant')).toBe(1)
+    expect(tokenSimilarity('assistant', 'assistance')).toBeCloseTo(0.8)
+    expect(tokenSimilarity('assistant', 'banana')).toBeLessThan(0.5)
+  })
+})
+
+describe('phraseSimilarity', () => {
+  it('finds the phrase anywhere in the transcript', () => {
+    expect(phraseSimilarity('hey assistant', 'um so hey assistant what time is it')).toBe(1)
+  })
+
+  it('ignores case and punctuation', () => {
+    expect(phraseSimilarity('hey assistant', 'Hey, Assistant!')).toBe(1)
+  })
+
+  it('scores near-misses, split words and merged words highly', () => {
+    expect(phraseSimilarity('hey assistant', 'hey assistance')).toBeCloseTo(0.9)
+    expect(phraseSimilarity('hey assistant', 'hey assist ant')).toBeGreaterThan(0.9)
+    expect(phraseSimilarity('hey assistant', 'heyassistant')).toBeGreaterThan(0.9)
+  })
+
+  it('compares Mandarin character by character, since it has no spaces', () => {
+    expect(phraseSimilarity('你好助手', '你好助手在吗')).toBe(1)
+    expect(phraseSimilarity('你好助手', '嗯，你好助手，现在几点')).toBe(1)
+    expect(phraseSimilarity('你好助手', '你好主手')).toBeCloseTo(0.75)
+    expect(phraseSimilarity('你好助手', '今天天气怎么样')).toBeLessThan(0.5)
+  })
+
+  it('scores unrelated speech low', () => {
+    expect(phraseSimilarity('hey assistant', 'play some music')).toBeLessThan(0.5)
+    expect(phraseSimilarity('hey assistant', '')).toBe(0)
+  })
+})
+
+describe('getMatchThreshold', () => {
+  it('lowers the bar as sensitivity rises and clamps out-of-range values', () => {
+    expect(getMatchThreshold(0)).toBeCloseTo(0.95)
+    expect(getMatchThreshold(1)).toBeCloseTo(0.6)
+    expect(getMatchThreshold(0.5)).toBeGreaterThan(getMatchThreshold(0.8))
+    expect(getMatchThreshold(-1)).toBe(getMatchThreshold(0))
+    expect(getMatchThreshold(5)).toBe(getMatchThreshold(1))
+  })
+})
+
+describe('matchWakeWord', () => {
+  it('matches an exact phrase and reports the score details', () => {
+    const match = matchWakeWord([segment('hey assistant')], wakeWords, { now: NOW })
+
+    expect(match).toMatchObject({ wakeWord: wakeWords[0], similarity: 1, confidence: 0.9, transcript: 'hey assistant' })
+    expect(match!.score).toBeCloseTo(0.98)
+  })
+
+  it('accepts near-misses at the default sensitivity but not at the strictest', () => {
+    const segments = [segment('hey assistance')]
+
+    expect(matchWakeWord(segments, wakeWords, { now: NOW })).not.toBeNull()
+    expect(matchWakeWord(segments, wakeWords, { now: NOW, sensitivity: 0 })).toBeNull()
+  })
+
+  it('only accepts loose matches at high sensitivity', () => {
+    const segments = [segment('hey sister')]
+
+    expect(matchWakeWord(segments, wakeWords, { now: NOW })).toBeNull()
+    expect(matchWakeWord(segments, wakeWords, { now: NOW, sensitivity: 1 })).not.toBeNull()
+  })
+
+  it('requires a closer match when the recognizer is unsure', () => {
+    expect(matchWakeWord([segment('hey assistance', 0.95)], wakeWords, { now: NOW, sensitivity: 0.3 })).not.toBeNull()
+    expect(matchWakeWord([segment('hey assistance', 0.05)], wakeWords, { now: NOW, sensitivity: 0.3 })).toBeNull()
+  })
+
+  it('treats a confidence of 0 as unknown rather than as certainly wrong', () => {
+    expect(matchWakeWord([segment('hey assistant', 0)], wakeWords, { now: NOW, sensitivity: 0 })).not.toBeNull()
+  })
+
+  it('ignores results older than the time window', () => {
+    const stale = [segment('hey assistant', 0.9, 5000), segment('and then we left', 0.9)]
+
+    expect(matchWakeWord(stale, wakeWords, { now: NOW, windowMs: 4000 })).toBeNull()
+    expect(matchWakeWord(stale, wakeWords, { now: NOW, windowMs: 6000 })).not.toBeNull()
+  })
+
+  it('checks every alternative, not just the first', () => {
+    const match = matchWakeWord([segment('hey a system', 0.9, 0, 'hey assistant')], wakeWords, { now: NOW, sensitivity: 0 })
+
+    expect(match?.transcript).toBe('hey assistant')
+  })
+
+  it('matches a phrase split across two recent results', () => {
+    const match = matchWakeWord([segment('okay hey', 0.9), segment('assistant', 0.8)], wakeWords, { now: NOW, sensitivity: 0.1 })
+
+    expect(match).toMatchObject({ transcript: 'okay hey assistant', confidence: 0.8 })
+  })
+
+  it('prefers the best-scoring phrase and breaks ties with the longer one', () => {
+    const phrases: WakeWordConfig[] = [
+      { phrase: 'hey assistant' },
+      { phrase: 'hey assistant quietly', startMuted: true },
+      { phrase: 'ok bot' },
+    ]
+
+    expect(matchWakeWord([segment('hey assistant quietly please')], phrases, { now: NOW })?.wakeWord.startMuted).toBe(true)
+    expect(matchWakeWord([segment('ok bot')], phrases, { now: NOW })?.wakeWord.phrase).toBe('ok bot')
+  })
+
+  it('matches a Mandarin phrase said together with a question', () => {
+    const phrases: WakeWordConfig[] = [{ phrase: '你好助手', locale: 'zh' }]
+
+    expect(matchWakeWord([segment('你好助手在吗')], phrases, { now: NOW })?.wakeWord.phrase).toBe('你好助手')
+    expect(matchWakeWord([segment('你好')], phrases, { now: NOW })).toBeNull()
+  })
+
+  it('returns null when nothing was said or no phrases are configured', () => {
+    expect(matchWakeWord([], wakeWords, { now: NOW })).toBeNull()
+    expect(matchWakeWord([segment('hey assistant')], [], { now: NOW })).toBeNull()
+  })
+})
@@ -0,0 +1,31 @@
+import { getWakeWordsForLocale, parseWakeWords } from '@/lib/wake-words'
+
+describe('parseWakeWords', () => {
+  it('reads JSON entries with actions and plain comma-separated phrases', () => {
+    expect(parseWakeWords('[{"phrase":"Hello Intake!","agentId":" agent_intake ","startMuted":true},"hey assistant"]')).toEqual([
+      { phrase: 'hello intake', agentId: 'agent_intake', startMuted: true, locale: undefined },
+      { phrase: 'hey assistant', agentId: undefined, startMuted: undefined, locale: undefined },
+    ])
+    expect(parseWakeWords('hey assistant, ok bot').map(wakeWord => wakeWord.phrase)).toEqual(['hey assistant', 'ok bot'])
+  })
+
+  it('drops blank and duplicate phrases', () => {
+    expect(parseWakeWords('["Hey Assistant", "hey  assistant", "", {"agentId": "x"}]')).toHaveLength(1)
+    expect(parseWakeWords(undefined)).toEqual([])
+  })
+})
+
+describe('getWakeWordsForLocale', () => {
+  const wakeWords = parseWakeWords('[{"phrase":"hey assistant","locale":"en"},{"phrase":"hola asistente","locale":"es-ES"},"ok bot"]')
+
+  it('keeps phrases for the locale or its language, plus untagged ones', () => {
+    expect(getWakeWordsForLocale(wakeWords, 'es-ES').map(wakeWord => wakeWord.phrase)).toEqual(['hola asistente', 'ok bot'])
+    expect(getWakeWordsForLocale(wakeWords, 'en-GB').map(wakeWord => wakeWord.phrase)).toEqual(['hey assistant', 'ok bot'])
+  })
+
+  it('falls back to every phrase when none fit the locale', () => {
+    const english = parseWakeWords('[{"phrase":"hey assistant","locale":"en"}]')
+
+    expect(getWakeWordsForLocale(english, 'zh-CN')).toEqual(english)
+  })
+})
@@ -0,0 +1,110 @@
+/**
+ * @jest-environment node
+ */
+import Retell from 'retell-sdk'
+import { POST } from '../app/api/retell/webhook/route'
+import { InMemoryCallRepository, setCallRepository } from '@/lib/call-repository'
+import { onRetellWebhook } from '@/lib/retell-webhook'
+import type { RetellCall } from '@/types/retell'
+
+const API_KEY = 'test-key'
+
+jest.mock('@/lib/retell-config', () => ({
+  serverRetellConfig: { apiKey: 'test-key' }
+}))
+
+const analyzedCall: RetellCall = {
+  call_id: 'call_analyzed',
+  call_status: 'ended',
+  start_timestamp: 1700000000000,
+  end_timestamp: 1700000030000,
+  call_analysis: {
+    call_summary: 'Asked about bedtime',
+    user_sentiment: 'Positive',
+    call_successful: true
+  }
+}
+
+function webhookRequest(payload: unknown, signature?: string | null) {
+  const body = typeof payload === 'string' ? payload : JSON.stringify(payload)
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  const header = signature === undefined ? Retell.sign(body, API_KEY) : signature
+  if (header) headers['x-retell-signature'] = header
+  return new Request('http://localhost/api/retell/webhook', { method: 'POST', headers, body })
+}
+
+describe('POST /api/retell/webhook', () => {
+  let repository: InMemoryCallRepository
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    repository = new InMemoryCallRepository()
+    setCallRepository(repository)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  afterAll(() => {
+    setCallRepository(null)
+  })
+
+  it('stores analyzed calls in the call repository', async () => {
+    const response = await POST(webhookRequest({ event: 'call_analyzed', call: analyzedCall }))
+
+    expect(response.status).toBe(204)
+    expect(await repository.get('call_analyzed')).toMatchObject({
+      call_id: 'call_analyzed',
+      call_analysis: expect.objectContaining({ call_summary: 'Asked about bedtime' })
+    })
+  })
+
+  it('runs every handler registered for the event type', async () => {
+    const handler = jest.fn()
+    const unsubscribe = onRetellWebhook('call_started', handler)
+
+    const call = { call_id: 'call_started', call_status: 'ongoing' }
+    const response = await POST(webhookRequest({ event: 'call_started', call }))
+    unsubscribe()
+
+    expect(response.status).toBe(204)
+    expect(handler).toHaveBeenCalledWith({ event: 'call_started', call })
+  })
+
+  it('acknowledges event types it does not handle', async () => {
+    const handler = jest.fn()
+    const unsubscribe = onRetellWebhook('call_ended', handler)
+
+    const response = await POST(webhookRequest({ event: 'transcript_updated', call: { call_id: 'call_1' } }))
+    unsubscribe()
+
+    expect(response.status).toBe(204)
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('rejects a missing or invalid signature', async () => {
+    const payload = { event: 'call_analyzed', call: analyzedCall }
+
+    expect((await POST(webhookRequest(payload, null))).status).toBe(401)
+    expect((await POST(webhookRequest(payload, Retell.sign('{}', API_KEY)))).status).toBe(401)
+    expect((await POST(webhookRequest(payload, Retell.sign(JSON.stringify(payload), 'other-key')))).status).toBe(401)
+    expect(await repository.get('call_analyzed')).toBeNull()
+  })
+
+  it('rejects a replayed event', async () => {
+    const body = JSON.stringify({ event: 'call_ended', call: { call_id: 'call_replayed', call_status: 'ended' } })
+    const signature = Retell.sign(body, API_KEY)
+
+    expect((await POST(webhookRequest(body, signature))).status).toBe(204)
+    const replay = await POST(webhookRequest(body, signature))
+
+    expect(replay.status).toBe(409)
+    expect(await replay.json()).toMatchObject({ code: 'webhook_replay' })
+  })
+
+  it('rejects malformed payloads', async () => {
+    expect((await POST(webhookRequest('not json'))).status).toBe(400)
+    expect((await POST(webhookRequest({ event: 'call_ended', call: {} }))).status).toBe(400)
+  })
+})
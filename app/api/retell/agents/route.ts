@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { getAgentCatalogue, serverRetellConfig } from '@/lib/retell-config';
+import { errorResponse } from '@/lib/api-errors';
+import type { GetAgentsResponse } from '@/types/retell';
+
+// Lists the agents the browser may start calls with. Only ids, names and descriptions are exposed.
+export async function GET() {
+  try {
+    const response: GetAgentsResponse = {
+      data: getAgentCatalogue(),
+      default_agent_id: serverRetellConfig.agentId,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'agents');
+  }
+}
@@ -1,34 +1,124 @@
 import { NextResponse } from 'next/server';
 import Retell from 'retell-sdk';
+import { findAgent, findAgentForLocale, serverRetellConfig } from '@/lib/retell-config';
+import { ApiError, errorResponse, readJsonBody } from '@/lib/api-errors';
+import { CALL_ID_PATTERN } from '@/lib/retell-calls';
+import type { CreateCallRequest } from '@/types/retell';
+
+const MAX_CALLER_NAME_LENGTH = 100;
+const MAX_VARIABLE_VALUE_LENGTH = 500;
+const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+const VARIABLE_KEY_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+function parseOptionalString(value: unknown, name: string, maxLength: number): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    throw new ApiError(400, 'invalid_request', `${name} must be a string`);
+  }
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) {
+    throw new ApiError(400, 'invalid_request', `${name} must be at most ${maxLength} characters`);
+  }
+  return trimmed || undefined;
+}
+
+function parseVariables(value: unknown): Record<string, string> | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new ApiError(400, 'invalid_request', 'variables must be an object of strings');
+  }
+
+  const variables: Record<string, string> = {};
+  for (const [key, raw] of Object.entries(value)) {
+    if (!VARIABLE_KEY_PATTERN.test(key)) {
+      throw new ApiError(400, 'invalid_request', `Variable name "${key}" may only contain letters, digits and underscores`);
+    }
+    const parsed = parseOptionalString(raw, `Variable "${key}"`, MAX_VARIABLE_VALUE_LENGTH);
+    if (parsed !== undefined) variables[key] = parsed;
+  }
+  return variables;
+}
+
+function parseCreateCallRequest(body: unknown): CreateCallRequest {
+  if (body === null || typeof body !== 'object' || Array.isArray(body)) {
+    throw new ApiError(400, 'invalid_request', 'Request body must be a JSON object');
+  }
+
+  const { agentId, callerName, locale, variables, previousCallId } = body as Record<string, unknown>;
+  if (agentId !== undefined && (typeof agentId !== 'string' || !agentId.trim())) {
+    throw new ApiError(400, 'invalid_request', 'agentId must be a non-empty string');
+  }
+
+  const parsedLocale = parseOptionalString(locale, 'locale', 35);
+  if (parsedLocale && !LOCALE_PATTERN.test(parsedLocale)) {
+    throw new ApiError(400, 'invalid_request', 'locale must be a language tag such as en-US');
+  }
+
+  if (previousCallId !== undefined && (typeof previousCallId !== 'string' || !CALL_ID_PATTERN.test(previousCallId))) {
+    throw new ApiError(400, 'invalid_request', 'previousCallId must be a Retell call ID');
+  }
+
+  return {
+    agentId: agentId?.trim(),
+    callerName: parseOptionalString(callerName, 'callerName', MAX_CALLER_NAME_LENGTH),
+    locale: parsedLocale,
+    variables: parseVariables(variables),
+    previousCallId,
+  };
+}
+
+// Custom variables must be listed in RETELL_DYNAMIC_VARIABLES so callers cannot
+// override values the agent prompt relies on
+function checkVariablesAllowed(variables: Record<string, string> | undefined) {
+  const allowed = serverRetellConfig.allowedDynamicVariables;
+  const rejected = Object.keys(variables || {}).filter(key => !allowed.includes(key));
+  if (rejected.length > 0) {
+    throw new ApiError(403, 'variable_not_allowed', `Variables not allowed: ${rejected.join(', ')}`);
+  }
+}
 
 export async function POST(request: Request) {
   try {
-    const { agentId, apiKey } = await request.json();
+    if (!serverRetellConfig.apiKey) {
+      throw new ApiError(500, 'server_misconfigured', 'Retell API key is not configured');
+    }
+
+    const { agentId: requestedAgentId, callerName, locale, variables, previousCallId } = parseCreateCallRequest(await readJsonBody(request));
+    // Without an explicit choice, prefer an agent that speaks the caller's language
+    const agentId = requestedAgentId
+      || (locale ? findAgentForLocale(locale)?.id : undefined)
+      || serverRetellConfig.agentId;
+
+    if (!agentId) {
+      throw new ApiError(400, 'invalid_request', 'No agent was selected and no default agent is configured');
+    }
 
-    if (!agentId || !apiKey) {
-      return NextResponse.json(
-        { error: 'Agent ID and API key are required' }, 
-        { status: 400 }
-      );
+    if (!findAgent(agentId)) {
+      throw new ApiError(403, 'agent_not_allowed', `Agent ${agentId} is not in the agent catalogue`);
     }
 
+    checkVariablesAllowed(variables);
+
+    // customer_name and locale are always available to the agent prompt alongside the custom variables
+    const dynamicVariables: Record<string, string> = {
+      ...variables,
+      customer_name: callerName || 'User',
+      ...(locale ? { locale } : {}),
+    };
+
     const client = new Retell({
-      apiKey: apiKey,
+      apiKey: serverRetellConfig.apiKey,
     });
 
-    const webCallResponse = await client.call.createWebCall({ 
+    const webCallResponse = await client.call.createWebCall({
       agent_id: agentId,
-      metadata: {
-        customer_name: "User"
-      }
+      // A reconnect points back at the call that dropped
+      metadata: previousCallId ? { ...dynamicVariables, previous_call_id: previousCallId } : dynamicVariables,
+      retell_llm_dynamic_variables: dynamicVariables,
     });
 
     return NextResponse.json(webCallResponse);
   } catch (error) {
-    console.error('[create-call] Error:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Internal server error' },
-      { status: 500 }
-    );
+    return errorResponse(error, 'create-call');
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,53 @@
+import Retell from 'retell-sdk';
+import { serverRetellConfig } from '@/lib/retell-config';
+import { ApiError, errorResponse } from '@/lib/api-errors';
+import { fetchAllCalls, parseFilterParams } from '@/lib/call-listing';
+import {
+  CALL_EXPORT_CONTENT_TYPES,
+  CALL_EXPORT_FORMATS,
+  serializeCalls,
+  toReadableStream,
+} from '@/lib/call-export';
+import type { CallExportFormat } from '@/types/retell';
+
+const EXPORT_PAGE_SIZE = 100;
+
+function parseFormat(searchParams: URLSearchParams): CallExportFormat {
+  const format = searchParams.get('format') || 'csv';
+  if (!CALL_EXPORT_FORMATS.includes(format as CallExportFormat)) {
+    throw new ApiError(400, 'invalid_request', `format must be one of ${CALL_EXPORT_FORMATS.join(', ')}`);
+  }
+  return format as CallExportFormat;
+}
+
+// Streams every call matching the call history filters as CSV, JSON or NDJSON
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const format = parseFormat(searchParams);
+    const filters = parseFilterParams(searchParams);
+
+    if (!serverRetellConfig.apiKey) {
+      throw new ApiError(500, 'server_misconfigured', 'Retell API key is not configured');
+    }
+
+    const client = new Retell({
+      apiKey: serverRetellConfig.apiKey,
+      // Retries are handled per call in fetchCallPage
+      maxRetries: 0,
+    });
+
+    const chunks = serializeCalls(fetchAllCalls(client, filters, EXPORT_PAGE_SIZE), format);
+    const filename = `calls-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    return new Response(toReadableStream(chunks), {
+      headers: {
+        'Content-Type': CALL_EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, 'export-calls');
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import Retell from 'retell-sdk';
+import { serverRetellConfig } from '@/lib/retell-config';
+import { ApiError, errorResponse } from '@/lib/api-errors';
+import { CALL_ID_PATTERN, toCallDetail } from '@/lib/retell-calls';
+import type { GetCallResponse } from '@/types/retell';
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ callId: string }> }
+) {
+  try {
+    if (!serverRetellConfig.apiKey) {
+      throw new ApiError(500, 'server_misconfigured', 'Retell API key is not configured');
+    }
+
+    const { callId } = await params;
+    if (!callId) {
+      throw new ApiError(400, 'invalid_request', 'callId is required');
+    }
+    // The SDK puts the ID into the request path as is
+    if (!CALL_ID_PATTERN.test(callId)) {
+      throw new ApiError(400, 'invalid_request', 'callId must be a Retell call ID');
+    }
+
+    const client = new Retell({
+      apiKey: serverRetellConfig.apiKey,
+    });
+
+    try {
+      const call = await client.call.retrieve(callId);
+      const response: GetCallResponse = { data: toCallDetail(call) };
+      return NextResponse.json(response);
+    } catch (error) {
+      if (error instanceof Retell.NotFoundError) {
+        throw new ApiError(404, 'not_found', `Call ${callId} was not found`);
+      }
+      throw error;
+    }
+  } catch (error) {
+    return errorResponse(error, 'get-call');
+  }
+}
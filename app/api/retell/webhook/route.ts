@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { serverRetellConfig } from '@/lib/retell-config';
+import { ApiError, errorResponse } from '@/lib/api-errors';
+import {
+  dispatchRetellWebhook,
+  parseWebhookEvent,
+  verifyWebhookSignature,
+} from '@/lib/retell-webhook';
+import '@/lib/webhook-handlers';
+
+export async function POST(request: Request) {
+  try {
+    if (!serverRetellConfig.apiKey) {
+      throw new ApiError(500, 'server_misconfigured', 'Retell API key is not configured');
+    }
+
+    // The signature covers the raw body, so verify before parsing
+    const body = await request.text();
+    verifyWebhookSignature(body, request.headers.get('x-retell-signature'), serverRetellConfig.apiKey);
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      throw new ApiError(400, 'invalid_json', 'Request body must be valid JSON');
+    }
+
+    const event = parseWebhookEvent(payload);
+    if (!event) {
+      // Acknowledge event types we don't handle so Retell doesn't retry them
+      return new NextResponse(null, { status: 204 });
+    }
+
+    await dispatchRetellWebhook(event);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error, 'webhook');
+  }
+}
@@ -0,0 +1,198 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { CallDetail, CallLatency, GetCallResponse, LatencyStats } from '@/types/retell'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import AnalysisFields from '@/components/AnalysisFields'
+
+const LATENCY_LABELS: Record<keyof CallLatency, string> = {
+  e2e: 'End to end',
+  llm: 'LLM',
+  tts: 'Text to speech',
+  knowledge_base: 'Knowledge base',
+  llm_websocket_network_rtt: 'LLM websocket RTT',
+  s2s: 'Speech to speech',
+}
+
+const LATENCY_COLUMNS: (keyof LatencyStats)[] = ['p50', 'p90', 'p95', 'p99', 'min', 'max']
+
+// Format seconds from call start as m:ss
+function formatOffset(seconds?: number) {
+  if (seconds === undefined) return '--:--'
+  const whole = Math.floor(seconds)
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`
+}
+
+function formatTimestamp(timestamp?: number) {
+  return timestamp ? new Date(timestamp).toLocaleString() : 'N/A'
+}
+
+function Field({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div>
+      <span className="font-semibold">{label}:</span> {value ?? 'N/A'}
+    </div>
+  )
+}
+
+export default function CallDetailPage() {
+  const { callId } = useParams<{ callId: string }>()
+  const [call, setCall] = useState<CallDetail | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function fetchCall() {
+      try {
+        const response = await fetch(`/api/retell/get-call/${encodeURIComponent(callId)}`)
+        if (!response.ok) {
+          const { error } = await response.json().catch(() => ({ error: undefined }))
+          throw new Error(error || 'Failed to fetch call')
+        }
+        const data: GetCallResponse = await response.json()
+        setCall(data.data)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load call')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchCall()
+  }, [callId])
+
+  if (loading) {
+    return <div className="flex justify-center p-8">Loading call...</div>
+  }
+
+  if (error || !call) {
+    return (
+      <div className="flex justify-center p-8 text-destructive">
+        Error: {error || 'Call not found'}
+      </div>
+    )
+  }
+
+  const analysis = call.call_analysis
+  const latencyRows = (Object.keys(LATENCY_LABELS) as (keyof CallLatency)[])
+    .filter(key => call.latency[key])
+
+  return (
+    <div className="container mx-auto p-8 grid gap-6">
+      <div>
+        <Link href="/calls" className="text-sm hover:underline">
+          &larr; Back to Call History
+        </Link>
+        <h1 className="text-2xl font-bold mt-2">Call {call.call_id}</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Overview</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-2">
+          <Field label="Status" value={call.call_status} />
+          <Field label="Agent" value={call.agent_id} />
+          <Field label="Type" value={call.call_type} />
+          <Field label="Started" value={formatTimestamp(call.start_timestamp)} />
+          <Field label="Ended" value={formatTimestamp(call.end_timestamp)} />
+          {call.duration !== undefined && (
+            <Field label="Duration" value={`${Math.round(call.duration / 1000)}s`} />
+          )}
+          <Field label="Disconnection Reason" value={call.disconnection_reason} />
+          {call.recording_url && (
+            <audio controls src={call.recording_url} className="mt-2 w-full" />
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Analysis</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-2 text-sm">
+          <Field label="Call Summary" value={analysis.call_summary} />
+          <Field label="Sentiment" value={analysis.user_sentiment} />
+          <Field
+            label="Call Successful"
+            value={analysis.call_successful === undefined ? undefined : analysis.call_successful ? 'Yes' : 'No'}
+          />
+          <Field
+            label="In Voicemail"
+            value={analysis.in_voicemail === undefined ? undefined : analysis.in_voicemail ? 'Yes' : 'No'}
+          />
+          <Field label="Agent Task Completion" value={analysis.agent_task_completion_rating} />
+          <Field label="Call Completion" value={analysis.call_completion_rating} />
+          <div className="border-t pt-2 mt-2 grid gap-2">
+            <h3 className="font-semibold">Custom Analysis</h3>
+            <AnalysisFields analysis={call.custom_analysis} />
+          </div>
+        </CardContent>
+      </Card>
+
+      {latencyRows.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Latency (ms)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left">
+                  <th className="font-semibold">Metric</th>
+                  {LATENCY_COLUMNS.map(column => (
+                    <th key={column} className="font-semibold">{column}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {latencyRows.map(key => (
+                  <tr key={key}>
+                    <td>{LATENCY_LABELS[key]}</td>
+                    {LATENCY_COLUMNS.map(column => (
+                      <td key={column}>{call.latency[key]?.[column] ?? '-'}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Transcript</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-3">
+          {call.transcript.length === 0 && (
+            <p className="text-sm text-muted-foreground">No transcript available.</p>
+          )}
+          {call.transcript.map((utterance, index) => (
+            <div
+              key={index}
+              className={`flex ${utterance.role === 'user' ? 'justify-end' : 'justify-start'}`}
+            >
+              <div className={`max-w-[80%] rounded-md p-3 ${
+                utterance.role === 'user'
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-muted'
+              }`}>
+                <p className="text-sm opacity-70">
+                  {utterance.role === 'user' ? 'User' : 'Agent'}
+                  {' · '}
+                  {formatOffset(utterance.words[0]?.start)}
+                  {' – '}
+                  {formatOffset(utterance.words[utterance.words.length - 1]?.end)}
+                </p>
+                <p className="mt-1">{utterance.content}</p>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
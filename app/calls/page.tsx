@@ -1,112 +1,232 @@
 'use client'
 
-import { useEffect, useState } from 'react'
-import { TransformedCall } from '@/types/retell'
+import { Suspense, useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import Link from 'next/link'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import { CallExportFormat, CallFilters, GetCallsResponse, TransformedCall } from '@/types/retell'
+import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { ScrollArea } from '@/components/ui/scroll-area'
+import AnalysisFields from '@/components/AnalysisFields'
+import CallFiltersBar from '@/components/CallFiltersBar'
+import { useAgentCatalogue } from '@/hooks/use-agent-catalogue'
+import { callFiltersToSearchParams, DEFAULT_CALL_FILTERS, parseCallFilters } from '@/lib/call-filters'
+import { CALL_EXPORT_FORMATS } from '@/lib/call-export'
+import { Download } from 'lucide-react'
 
+const PAGE_SIZE = 20
+
+// useSearchParams needs a Suspense boundary when the page is prerendered
 export default function CallsPage() {
+  return (
+    <Suspense fallback={<div className="flex justify-center p-8">Loading calls...</div>}>
+      <CallHistory />
+    </Suspense>
+  )
+}
+
+function CallHistory() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
   const [calls, setCalls] = useState<TransformedCall[]>([])
   const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [paginationKey, setPaginationKey] = useState<string | undefined>(undefined)
+  const [hasMore, setHasMore] = useState(true)
+  const [exportFormat, setExportFormat] = useState<CallExportFormat>('csv')
+  const sentinelRef = useRef<HTMLDivElement | null>(null)
+  const isFetchingRef = useRef(false)
+  const requestIdRef = useRef(0)
+  const { agents } = useAgentCatalogue()
 
-  useEffect(() => {
-    async function fetchCalls() {
-      try {
-        const response = await fetch('/api/retell/get-calls')
-        if (!response.ok) {
-          throw new Error('Failed to fetch calls')
-        }
-        const data = await response.json()
-        setCalls(data.data) // Access the nested data array
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load calls')
-      } finally {
+  // Filters live in the URL so a filtered view can be shared
+  const filters = useMemo(() => {
+    try {
+      return parseCallFilters(new URLSearchParams(searchParams.toString()))
+    } catch {
+      return DEFAULT_CALL_FILTERS
+    }
+  }, [searchParams])
+  const filterQuery = callFiltersToSearchParams(filters).toString()
+  const exportParams = new URLSearchParams(filterQuery)
+  exportParams.set('format', exportFormat)
+
+  const handleFiltersChange = useCallback((next: CallFilters) => {
+    const query = callFiltersToSearchParams(next).toString()
+    router.replace(query ? `${pathname}?${query}` : pathname)
+  }, [pathname, router])
+
+  // Fetch one page of calls, starting after the given cursor
+  const fetchCalls = useCallback(async (cursor?: string) => {
+    if (cursor && isFetchingRef.current) return
+    isFetchingRef.current = true
+    const requestId = ++requestIdRef.current
+    if (cursor) setLoadingMore(true)
+
+    try {
+      const params = new URLSearchParams(filterQuery)
+      params.set('limit', String(PAGE_SIZE))
+      if (cursor) params.set('pagination_key', cursor)
+
+      const response = await fetch(`/api/retell/get-calls?${params}`)
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({ error: undefined }))
+        throw new Error(error || 'Failed to fetch calls')
+      }
+      const data: GetCallsResponse = await response.json()
+
+      // Ignore responses for filters that have since changed
+      if (requestId !== requestIdRef.current) return
+
+      setCalls(prev => cursor ? [...prev, ...data.data] : data.data)
+      setPaginationKey(data.pagination_key)
+      setHasMore(Boolean(data.pagination_key))
+      setError(null)
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return
+      setError(err instanceof Error ? err.message : 'Failed to load calls')
+    } finally {
+      if (requestId === requestIdRef.current) {
+        isFetchingRef.current = false
         setLoading(false)
+        setLoadingMore(false)
       }
     }
+  }, [filterQuery])
 
+  // Start over from the first page whenever the filters change
+  useEffect(() => {
+    setLoading(true)
+    setCalls([])
+    setPaginationKey(undefined)
+    setHasMore(true)
     fetchCalls()
-  }, [])
+  }, [fetchCalls])
+
+  // Load the next page when the sentinel below the last card scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !hasMore || !paginationKey) return
 
-  if (loading) {
-    return <div className="flex justify-center p-8">Loading calls...</div>
-  }
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        fetchCalls(paginationKey)
+      }
+    })
+    observer.observe(sentinel)
 
-  if (error) {
-    return (
-      <div className="flex justify-center p-8 text-destructive">
-        Error: {error}
-      </div>
-    )
-  }
+    return () => observer.disconnect()
+  }, [fetchCalls, hasMore, paginationKey])
 
   return (
     <div className="container mx-auto p-8">
-      <h1 className="text-2xl font-bold mb-8">Call History</h1>
-      <ScrollArea className="h-[600px]">
-        <div className="grid gap-4">
-          {calls.map((call) => (
-            <Card key={call.call_id}>
-              <CardHeader>
-                <CardTitle className="text-lg">
-                  Call ID: {call.call_id}
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="grid gap-2">
-                  <div>
-                    <span className="font-semibold">Status:</span> {call.call_status}
-                  </div>
-                  <div>
-                    <span className="font-semibold">Created:</span>{' '}
-                    {new Date(call.created_at).toLocaleString()}
-                  </div>
-                  {call.duration && (
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="text-2xl font-bold">Call History</h1>
+        {/* Exports every call matching the current filters, not just the loaded pages */}
+        <div className="flex gap-2">
+          <select
+            aria-label="Export format"
+            className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+            value={exportFormat}
+            onChange={(event) => setExportFormat(event.target.value as CallExportFormat)}
+          >
+            {CALL_EXPORT_FORMATS.map(format => (
+              <option key={format} value={format}>{format.toUpperCase()}</option>
+            ))}
+          </select>
+          <Button asChild variant="outline">
+            <a href={`/api/retell/export-calls?${exportParams}`} download>
+              <Download className="mr-2 h-4 w-4" />
+              Download
+            </a>
+          </Button>
+        </div>
+      </div>
+      <CallFiltersBar filters={filters} agents={agents} onChange={handleFiltersChange} />
+      {loading ? (
+        <div className="flex justify-center p-8">Loading calls...</div>
+      ) : error && calls.length === 0 ? (
+        <div className="flex justify-center p-8 text-destructive">
+          Error: {error}
+        </div>
+      ) : (
+        <ScrollArea className="h-[600px]">
+          <div className="grid gap-4">
+            {calls.map((call) => (
+              <Card
+                key={call.call_id}
+                className={call.analysisStatus.state === 'failed' ? 'border-destructive' : undefined}
+              >
+                <CardHeader>
+                  <CardTitle className="text-lg">
+                    <Link href={`/calls/${call.call_id}`} className="hover:underline">
+                      Call ID: {call.call_id}
+                    </Link>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid gap-2">
                     <div>
-                      <span className="font-semibold">Duration:</span>{' '}
-                      {Math.round(call.duration / 1000)}s
+                      <span className="font-semibold">Status:</span> {call.call_status}
                     </div>
-                  )}
-                  <div className="border-t pt-2 mt-2">
-                    <h3 className="font-semibold mb-2">Analysis</h3>
-                    <div className="grid gap-2 text-sm">
-                      <div>
-                        <span className="font-semibold">Name:</span> {call.analysis.name}
-                      </div>
-                      <div>
-                        <span className="font-semibold">Kid's Name:</span> {call.analysis.kidName}
-                      </div>
-                      <div>
-                        <span className="font-semibold">Kid's Age:</span> {call.analysis.kidAge}
-                      </div>
-                      <div>
-                        <span className="font-semibold">Scenario:</span> {call.analysis.scenario}
-                      </div>
-                      <div>
-                        <span className="font-semibold">Advice Given:</span> {call.analysis.advice}
-                      </div>
-                      <div>
-                        <span className="font-semibold">Caller Action:</span> {call.analysis.callerAction}
-                      </div>
+                    {call.agent_id && (
                       <div>
-                        <span className="font-semibold">Call Summary:</span> {call.analysis.callSummary}
-                      </div>
-                      <div>
-                        <span className="font-semibold">Sentiment:</span> {call.analysis.userSentiment}
+                        <span className="font-semibold">Agent:</span>{' '}
+                        {agents.find(agent => agent.id === call.agent_id)?.name || call.agent_id}
                       </div>
+                    )}
+                    <div>
+                      <span className="font-semibold">Created:</span>{' '}
+                      {new Date(call.created_at).toLocaleString()}
+                    </div>
+                    {call.duration && (
                       <div>
-                        <span className="font-semibold">Call Successful:</span>{' '}
-                        {call.analysis.callSuccessful ? 'Yes' : 'No'}
+                        <span className="font-semibold">Duration:</span>{' '}
+                        {Math.round(call.duration / 1000)}s
                       </div>
+                    )}
+                    <div className="border-t pt-2 mt-2">
+                      <h3 className="font-semibold mb-2">Analysis</h3>
+                      {call.analysisStatus.state === 'failed' ? (
+                        <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+                          Could not load analysis: {call.analysisStatus.reason}
+                        </div>
+                      ) : call.analysisStatus.state === 'pending' ? (
+                        <div className="text-sm text-muted-foreground">
+                          Analysis not available yet.
+                        </div>
+                      ) : (
+                        <div className="grid gap-2 text-sm">
+                          <AnalysisFields analysis={call.analysis} />
+                          <div>
+                            <span className="font-semibold">Call Summary:</span> {call.analysis.callSummary}
+                          </div>
+                          <div>
+                            <span className="font-semibold">Sentiment:</span> {call.analysis.userSentiment}
+                          </div>
+                          <div>
+                            <span className="font-semibold">Call Successful:</span>{' '}
+                            {call.analysis.callSuccessful ? 'Yes' : 'No'}
+                          </div>
+                        </div>
+                      )}
                     </div>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
-        </div>
-      </ScrollArea>
+                </CardContent>
+              </Card>
+            ))}
+            <div ref={sentinelRef} className="flex justify-center p-4 text-sm text-muted-foreground">
+              {loadingMore
+                ? 'Loading more calls...'
+                : error
+                  ? `Error: ${error}`
+                  : !hasMore && (calls.length > 0 ? 'No more calls' : 'No calls match these filters')}
+            </div>
+          </div>
+        </ScrollArea>
+      )}
     </div>
   )
 } 
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { formatAnalysisValue, getOrderedAnalysisFields } from '@/lib/analysis-schema'
+import type { CustomAnalysisFields } from '@/types/retell'
+
+interface AnalysisFieldsProps {
+  analysis: CustomAnalysisFields
+}
+
+// Renders custom analysis fields in schema order, followed by any keys the schema doesn't know
+export default function AnalysisFields({ analysis }: AnalysisFieldsProps) {
+  const extraFields = Object.entries(analysis.extraFields)
+
+  return (
+    <>
+      {getOrderedAnalysisFields().map((field) => (
+        <div key={field.key}>
+          <span className="font-semibold">{field.label}:</span>{' '}
+          {formatAnalysisValue(analysis.fields[field.key])}
+        </div>
+      ))}
+      {extraFields.map(([key, value]) => (
+        <div key={key} className="text-muted-foreground">
+          <span className="font-semibold">{key}:</span> {value}
+        </div>
+      ))}
+    </>
+  )
+}
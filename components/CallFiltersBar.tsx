@@ -0,0 +1,181 @@
+'use client'
+
+import { FormEvent, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { CALL_STATUSES, DEFAULT_CALL_FILTERS, USER_SENTIMENTS } from '@/lib/call-filters'
+import type { CallFilters, RetellAgent } from '@/types/retell'
+
+interface CallFiltersBarProps {
+  filters: CallFilters
+  agents: RetellAgent[]
+  onChange: (filters: CallFilters) => void
+}
+
+const inputClassName = 'h-9 rounded-md border border-input bg-background px-2 text-sm'
+
+function toggle(values: string[], value: string) {
+  return values.includes(value) ? values.filter(item => item !== value) : [...values, value]
+}
+
+function toOptionalNumber(value: string) {
+  return value === '' ? undefined : Number(value)
+}
+
+// Filter, sort and search controls for the call history.
+// Checkboxes and selects apply immediately; text and number fields apply on submit.
+export default function CallFiltersBar({ filters, agents, onChange }: CallFiltersBarProps) {
+  const [draft, setDraft] = useState(filters)
+
+  // Follow external changes, e.g. back/forward navigation
+  useEffect(() => {
+    setDraft(filters)
+  }, [filters])
+
+  const apply = (next: CallFilters) => {
+    setDraft(next)
+    onChange(next)
+  }
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    onChange(draft)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-3 mb-6 rounded-md border p-4 text-sm">
+      <div className="flex flex-wrap gap-4">
+        <fieldset className="flex flex-wrap gap-2">
+          <legend className="font-semibold mb-1">Status</legend>
+          {CALL_STATUSES.map(status => (
+            <label key={status} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={draft.status.includes(status)}
+                onChange={() => apply({ ...draft, status: toggle(draft.status, status) })}
+              />
+              {status}
+            </label>
+          ))}
+        </fieldset>
+
+        <fieldset className="flex flex-wrap gap-2">
+          <legend className="font-semibold mb-1">Sentiment</legend>
+          {USER_SENTIMENTS.map(sentiment => (
+            <label key={sentiment} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={draft.sentiment.includes(sentiment)}
+                onChange={() => apply({ ...draft, sentiment: toggle(draft.sentiment, sentiment) })}
+              />
+              {sentiment}
+            </label>
+          ))}
+        </fieldset>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="grid gap-1">
+          <span className="font-semibold">Agent</span>
+          <select
+            className={inputClassName}
+            value={draft.agent[0] ?? ''}
+            onChange={(event) => apply({ ...draft, agent: event.target.value ? [event.target.value] : [] })}
+          >
+            <option value="">Any</option>
+            {agents.map(agent => (
+              <option key={agent.id} value={agent.id}>{agent.name}</option>
+            ))}
+            {/* Keep agents from a shared URL selectable even if they left the catalogue */}
+            {draft.agent.filter(id => !agents.some(agent => agent.id === id)).map(id => (
+              <option key={id} value={id}>{id}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="grid gap-1">
+          <span className="font-semibold">Successful</span>
+          <select
+            className={inputClassName}
+            value={draft.successful === undefined ? '' : String(draft.successful)}
+            onChange={(event) => apply({
+              ...draft,
+              successful: event.target.value === '' ? undefined : event.target.value === 'true'
+            })}
+          >
+            <option value="">Any</option>
+            <option value="true">Yes</option>
+            <option value="false">No</option>
+          </select>
+        </label>
+
+        <label className="grid gap-1">
+          <span className="font-semibold">From</span>
+          <input
+            type="date"
+            className={inputClassName}
+            value={draft.from || ''}
+            onChange={(event) => setDraft({ ...draft, from: event.target.value || undefined })}
+          />
+        </label>
+
+        <label className="grid gap-1">
+          <span className="font-semibold">To</span>
+          <input
+            type="date"
+            className={inputClassName}
+            value={draft.to || ''}
+            onChange={(event) => setDraft({ ...draft, to: event.target.value || undefined })}
+          />
+        </label>
+
+        <label className="grid gap-1">
+          <span className="font-semibold">Min duration (s)</span>
+          <input
+            type="number"
+            min={0}
+            className={`${inputClassName} w-28`}
+            value={draft.minDuration ?? ''}
+            onChange={(event) => setDraft({ ...draft, minDuration: toOptionalNumber(event.target.value) })}
+          />
+        </label>
+
+        <label className="grid gap-1">
+          <span className="font-semibold">Max duration (s)</span>
+          <input
+            type="number"
+            min={0}
+            className={`${inputClassName} w-28`}
+            value={draft.maxDuration ?? ''}
+            onChange={(event) => setDraft({ ...draft, maxDuration: toOptionalNumber(event.target.value) })}
+          />
+        </label>
+
+        <label className="grid gap-1">
+          <span className="font-semibold">Sort</span>
+          <select
+            className={inputClassName}
+            value={draft.sort}
+            onChange={(event) => apply({ ...draft, sort: event.target.value as CallFilters['sort'] })}
+          >
+            <option value="newest">Newest first</option>
+            <option value="oldest">Oldest first</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="search"
+          placeholder="Search summaries and analysis fields"
+          className={`${inputClassName} flex-1 min-w-[200px]`}
+          value={draft.q || ''}
+          onChange={(event) => setDraft({ ...draft, q: event.target.value || undefined })}
+        />
+        <Button type="submit">Apply</Button>
+        <Button type="button" variant="outline" onClick={() => apply(DEFAULT_CALL_FILTERS)}>
+          Reset
+        </Button>
+      </div>
+    </form>
+  )
+}
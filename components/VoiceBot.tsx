@@ -1,7 +1,7 @@
 'use client' // Marks this as a client-side component in Next.js
 
 // Import necessary hooks, components and types
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState, type MutableRefObject } from 'react'
 import { v4 as uuidv4 } from 'uuid'
 import { retellConfig } from '@/lib/retell-config'
 import '../types/retell-client'
@@ -10,39 +10,72 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { useToast } from "@/hooks/use-toast"
-import { Phone, PhoneOff, Mic, MicOff } from "lucide-react"
+import { Phone, PhoneOff, Mic, MicOff, Download, Trash2, Plus, X, Volume2, RefreshCw } from "lucide-react"
 import { useRetellClient } from '@/hooks/use-retell-client'
+import { useWakeWordDetection } from '@/hooks/use-wake-word-detection'
+import { useVoiceCommands } from '@/hooks/use-voice-commands'
+import { useSessionHistory } from '@/hooks/use-session-history'
+import { useAgentCatalogue } from '@/hooks/use-agent-catalogue'
+import { useAudioDevices } from '@/hooks/use-audio-devices'
+import { useAudioLevels } from '@/hooks/use-audio-levels'
+import { downloadTranscript, TRANSCRIPT_EXPORT_FORMATS } from '@/lib/transcript-export'
+import { formatWakeWords, getConfiguredWakeWords, getWakeWordsForLocale, getWakeWordSensitivity, loadWakeWords, saveWakeWords } from '@/lib/wake-words'
+import { getDefaultLocale, loadLocale, matchesLocale, saveLocale, SUPPORTED_LOCALES } from '@/lib/locales'
+import { formatLatency, summarizeTurnLatencies } from '@/lib/turn-latency'
+import { isCallLive, isCallTransitioning } from '@/lib/call-lifecycle'
+import { DEFAULT_VOICE_COMMANDS, getVoiceCommandsDefault, getVoiceCommandsForLocale, VOICE_COMMAND_CONFIRMATIONS } from '@/lib/voice-commands'
+import type { AudioDeviceOption, AudioDeviceSelection, CallerDetails, CallLifecycleState, CallRetryState, CallTimeoutWarning, Message, SpeakingState, TranscriptExportFormat, VoiceBotSession, VoiceCommand, WakeWordConfig } from '@/types/voice-bot'
+import type { CreateCallRequest, RetellAgent } from '@/types/retell'
 
-// Interface for chat messages between user and assistant
-export interface Message {
-  id: string
-  type: 'response' | 'transcription' | 'system' // Added system type for wake word notifications
-  role?: string
-  content: string
-  timestamp: Date
-  isComplete?: boolean
-}
+export type { Message } from '@/types/voice-bot'
 
 // Main state interface for the VoiceBot component
 export interface VoiceBotState {
-  isCallActive: boolean
-  isLoading: boolean
   error: string | null
-  callStatus: 'idle' | 'ongoing' | 'ended' | 'error'
+  callStatus: CallLifecycleState // mirrored from useRetellClient
+  callRetry: CallRetryState | null // a failed setup waiting to be retried
+  droppedCallId: string | null // call lost to a network drop, until a new call connects
+  callTimeout: CallTimeoutWarning | null // an automatic hang-up counting down
   messages: Message[]
   isListeningForWakeWord: boolean
   liveTranscript: string
   liveTranscriptRole: string | null
+  callStartedAt: Date | null
+  currentCallId: string | null
+  selectedAgentId: string | null
+  callerDetails: CallerDetails
+  isMuted: boolean
+  speakingState: SpeakingState
+  turnLatencies: number[] // ms from the user's last words to the agent answering, this call
+  locale: string
+  wakeWords: WakeWordConfig[]
+  voiceCommandsEnabled: boolean
+  showAudioLevels: boolean
 }
 
-const WAKE_WORD = 'hey assistant' // You can change this to any wake word you prefer
+const SESSION_SAVE_DELAY_MS = 1000 // Debounce for saving the conversation while a call is running
 
 // Component for displaying call controls (buttons)
 interface CallControlsProps {
   isCallActive: boolean
   isLoading: boolean
   isListeningForWakeWord: boolean
-  callStatus: string
+  isMuted: boolean
+  speakingState: SpeakingState
+  turnLatencies: number[]
+  callStatus: CallLifecycleState
+  wakeWords: WakeWordConfig[]
+  voiceCommands: VoiceCommand[]
+  agents: RetellAgent[]
+  selectedAgentId: string | null
+  locale: string
+  voiceCommandsEnabled: boolean
+  showAudioLevels: boolean
+  onSelectAgent: (agentId: string) => void
+  onSelectLocale: (locale: string) => void
+  onToggleVoiceCommands: (enabled: boolean) => void
+  onToggleAudioLevels: (enabled: boolean) => void
+  onToggleMute: () => void
   onStartCall: () => void
   onEndCall: () => void
   onStartWakeWordDetection: () => void
@@ -53,57 +86,485 @@ function CallControls({
   isCallActive,
   isLoading,
   isListeningForWakeWord,
+  isMuted,
+  speakingState,
+  turnLatencies,
   callStatus,
+  wakeWords,
+  voiceCommands,
+  agents,
+  selectedAgentId,
+  locale,
+  voiceCommandsEnabled,
+  showAudioLevels,
+  onSelectAgent,
+  onSelectLocale,
+  onToggleVoiceCommands,
+  onToggleAudioLevels,
+  onToggleMute,
   onStartCall,
   onEndCall,
   onStartWakeWordDetection,
   onStopWakeWordDetection
 }: CallControlsProps) {
+  const selectedAgent = agents.find(agent => agent.id === selectedAgentId)
+  const latency = summarizeTurnLatencies(turnLatencies)
+
   return (
-    <div className="flex items-center justify-between mb-6">
-      <div className="flex gap-2">
-        <Button
-          onClick={isListeningForWakeWord ? onStopWakeWordDetection : onStartWakeWordDetection}
-          disabled={isCallActive}
-          variant="outline"
-        >
-          {isListeningForWakeWord ? (
-            <>
-              <MicOff className="mr-2 h-4 w-4" />
-              Stop Listening
-            </>
-          ) : (
-            <>
-              <Mic className="mr-2 h-4 w-4" />
-              Listen for Wake Word
-            </>
+    <div className="mb-6">
+      <div className="flex items-center justify-between">
+        <div className="flex gap-2">
+          {agents.length > 1 && (
+            <select
+              aria-label="Agent"
+              className="h-10 rounded-md border border-input bg-background px-2 text-sm"
+              value={selectedAgentId ?? ''}
+              onChange={(event) => onSelectAgent(event.target.value)}
+              disabled={isCallActive || isLoading}
+            >
+              {agents.map(agent => (
+                <option key={agent.id} value={agent.id}>{agent.name}</option>
+              ))}
+            </select>
           )}
-        </Button>
+
+          <select
+            aria-label="Language"
+            className="h-10 rounded-md border border-input bg-background px-2 text-sm"
+            value={locale}
+            onChange={(event) => onSelectLocale(event.target.value)}
+            disabled={isCallActive || isLoading}
+          >
+            {SUPPORTED_LOCALES.map(option => (
+              <option key={option.code} value={option.code}>{option.label}</option>
+            ))}
+          </select>
+
+          <Button
+            onClick={isListeningForWakeWord ? onStopWakeWordDetection : onStartWakeWordDetection}
+            disabled={isCallActive}
+            variant="outline"
+          >
+            {isListeningForWakeWord ? (
+              <>
+                <MicOff className="mr-2 h-4 w-4" />
+                Stop Listening
+              </>
+            ) : (
+              <>
+                <Mic className="mr-2 h-4 w-4" />
+                Listen for Wake Word
+              </>
+            )}
+          </Button>
         
-        <Button
-          onClick={isCallActive ? onEndCall : onStartCall}
-          disabled={isLoading || isListeningForWakeWord}
-          variant={isCallActive ? "destructive" : "default"}
-        >
-          {isLoading ? (
-            <span>Initializing...</span>
-          ) : isCallActive ? (
-            <>
-              <PhoneOff className="mr-2 h-4 w-4" />
-              End Call
-            </>
-          ) : (
-            <>
-              <Phone className="mr-2 h-4 w-4" />
-              Start Call
-            </>
+          <Button
+            onClick={isCallActive ? onEndCall : onStartCall}
+            disabled={isLoading || isListeningForWakeWord}
+            variant={isCallActive ? "destructive" : "default"}
+          >
+            {isLoading ? (
+              <span>Initializing...</span>
+            ) : isCallActive ? (
+              <>
+                <PhoneOff className="mr-2 h-4 w-4" />
+                End Call
+              </>
+            ) : (
+              <>
+                <Phone className="mr-2 h-4 w-4" />
+                Start Call
+              </>
+            )}
+          </Button>
+
+          {isCallActive && (
+            <Button
+              onClick={onToggleMute}
+              variant={isMuted ? "secondary" : "outline"}
+              aria-pressed={isMuted}
+            >
+              {isMuted ? (
+                <>
+                  <Mic className="mr-2 h-4 w-4" />
+                  Unmute
+                </>
+              ) : (
+                <>
+                  <MicOff className="mr-2 h-4 w-4" />
+                  Mute
+                </>
+              )}
+            </Button>
           )}
-        </Button>
-      </div>
+        </div>
       
-      <span className="text-sm text-muted-foreground">
-        Status: {isListeningForWakeWord ? 'Listening for wake word' : callStatus}
-      </span>
+        <span className="flex items-center gap-2 text-sm text-muted-foreground">
+          {isCallActive && speakingState !== 'silence' && (
+            <span
+              aria-live="polite"
+              className={`flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium animate-pulse ${
+                speakingState === 'agent' ? 'bg-emerald-500 text-white' : 'bg-primary text-primary-foreground'
+              }`}
+            >
+              {speakingState === 'agent' ? <Volume2 className="h-3 w-3" /> : <Mic className="h-3 w-3" />}
+              {speakingState === 'agent' ? 'Assistant speaking' : 'You are speaking'}
+            </span>
+          )}
+          {isCallActive && isMuted && (
+            <span role="status" className="flex items-center gap-1 rounded-full bg-destructive px-2 py-0.5 text-xs font-medium text-destructive-foreground">
+              <MicOff className="h-3 w-3" />
+              Muted
+            </span>
+          )}
+          Status: {isListeningForWakeWord ? `Listening for ${formatWakeWords(wakeWords)}` : callStatus}
+        </span>
+      </div>
+
+      <div className="mt-2 flex items-center justify-between gap-4 text-sm text-muted-foreground">
+        <span>
+          {selectedAgent?.description}
+          {latency && (
+            <span className="block text-xs" title={`Median ${formatLatency(latency.medianMs)}, p90 ${formatLatency(latency.p90Ms)}`}>
+              Response time: {formatLatency(latency.lastMs)} last, {formatLatency(latency.averageMs)} average over {latency.turns} {latency.turns === 1 ? 'turn' : 'turns'}
+            </span>
+          )}
+        </span>
+        <label
+          className="flex items-center gap-1 shrink-0"
+          title={`Say ${voiceCommands.map(command => `"${command.phrase}"`).join(', ')} during a call`}
+        >
+          <input
+            type="checkbox"
+            checked={voiceCommandsEnabled}
+            onChange={(event) => onToggleVoiceCommands(event.target.checked)}
+          />
+          Voice commands
+        </label>
+        {/* The SDK only sends agent audio when asked at call start */}
+        <label className="flex items-center gap-1 shrink-0">
+          <input
+            type="checkbox"
+            checked={showAudioLevels}
+            onChange={(event) => onToggleAudioLevels(event.target.checked)}
+            disabled={isCallActive || isLoading}
+          />
+          Audio levels
+        </label>
+      </div>
+    </div>
+  )
+}
+
+// Turn the pre-call form into a create-call request, skipping blank rows
+function toCreateCallRequest(agentId: string | null, details: CallerDetails, locale: string): CreateCallRequest {
+  const variables = Object.fromEntries(
+    details.variables
+      .filter(variable => variable.key.trim())
+      .map(variable => [variable.key.trim(), variable.value])
+  )
+
+  return {
+    agentId: agentId ?? undefined,
+    callerName: details.callerName.trim() || undefined,
+    locale,
+    variables: Object.keys(variables).length > 0 ? variables : undefined
+  }
+}
+
+// Component for collecting caller details before a call
+interface PreCallFormProps {
+  details: CallerDetails
+  disabled: boolean
+  onChange: (details: CallerDetails) => void
+}
+
+function PreCallForm({ details, disabled, onChange }: PreCallFormProps) {
+  const inputClassName = 'h-9 rounded-md border border-input bg-background px-2 text-sm disabled:opacity-50'
+
+  const updateVariable = (id: string, update: { key?: string; value?: string }) => {
+    onChange({
+      ...details,
+      variables: details.variables.map(variable => variable.id === id ? { ...variable, ...update } : variable)
+    })
+  }
+
+  return (
+    <details className="mb-6 rounded-md border p-4 text-sm">
+      <summary className="cursor-pointer font-semibold">Caller details</summary>
+
+      <div className="mt-4 grid gap-3">
+        <label className="grid gap-1">
+          <span className="font-medium">Name</span>
+          <input
+            className={inputClassName}
+            value={details.callerName}
+            onChange={(event) => onChange({ ...details, callerName: event.target.value })}
+            placeholder="User"
+            maxLength={100}
+            disabled={disabled}
+          />
+        </label>
+
+        {details.variables.map((variable) => (
+          <div key={variable.id} className="flex gap-2">
+            <input
+              aria-label="Variable name"
+              className={`${inputClassName} w-40`}
+              value={variable.key}
+              onChange={(event) => updateVariable(variable.id, { key: event.target.value })}
+              placeholder="name"
+              disabled={disabled}
+            />
+            <input
+              aria-label="Variable value"
+              className={`${inputClassName} flex-1`}
+              value={variable.value}
+              onChange={(event) => updateVariable(variable.id, { value: event.target.value })}
+              placeholder="value"
+              disabled={disabled}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              aria-label="Remove variable"
+              onClick={() => onChange({ ...details, variables: details.variables.filter(item => item.id !== variable.id) })}
+              disabled={disabled}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ ...details, variables: [...details.variables, { id: uuidv4(), key: '', value: '' }] })}
+            disabled={disabled}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add variable
+          </Button>
+        </div>
+      </div>
+    </details>
+  )
+}
+
+// Component for editing wake phrases and their actions
+interface WakeWordSettingsProps {
+  wakeWords: WakeWordConfig[]
+  agents: RetellAgent[]
+  disabled: boolean
+  onSave: (wakeWords: WakeWordConfig[]) => void
+}
+
+function WakeWordSettings({ wakeWords, agents, disabled, onSave }: WakeWordSettingsProps) {
+  const [draft, setDraft] = useState(wakeWords)
+  const inputClassName = 'h-9 rounded-md border border-input bg-background px-2 text-sm disabled:opacity-50'
+
+  // Follow saved changes, e.g. when settings load from storage
+  useEffect(() => {
+    setDraft(wakeWords)
+  }, [wakeWords])
+
+  const updateRow = (index: number, update: Partial<WakeWordConfig>) => {
+    setDraft(draft.map((wakeWord, i) => i === index ? { ...wakeWord, ...update } : wakeWord))
+  }
+
+  return (
+    <details className="mb-6 rounded-md border p-4 text-sm">
+      <summary className="cursor-pointer font-semibold">Wake words</summary>
+
+      <div className="mt-4 grid gap-3">
+        {draft.map((wakeWord, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <input
+              aria-label="Wake phrase"
+              className={`${inputClassName} flex-1 min-w-[160px]`}
+              value={wakeWord.phrase}
+              onChange={(event) => updateRow(index, { phrase: event.target.value })}
+              placeholder="hey assistant"
+              disabled={disabled}
+            />
+            <select
+              aria-label="Agent for wake phrase"
+              className={inputClassName}
+              value={wakeWord.agentId ?? ''}
+              onChange={(event) => updateRow(index, { agentId: event.target.value || undefined })}
+              disabled={disabled}
+            >
+              <option value="">Selected agent</option>
+              {agents.map(agent => (
+                <option key={agent.id} value={agent.id}>{agent.name}</option>
+              ))}
+            </select>
+            <select
+              aria-label="Language for wake phrase"
+              className={inputClassName}
+              value={wakeWord.locale ?? ''}
+              onChange={(event) => updateRow(index, { locale: event.target.value || undefined })}
+              disabled={disabled}
+            >
+              <option value="">All languages</option>
+              {SUPPORTED_LOCALES.map(option => (
+                <option key={option.code} value={option.code}>{option.label}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={Boolean(wakeWord.startMuted)}
+                onChange={(event) => updateRow(index, { startMuted: event.target.checked || undefined })}
+                disabled={disabled}
+              />
+              Start muted
+            </label>
+            <Button
+              variant="ghost"
+              size="sm"
+              aria-label="Remove wake phrase"
+              onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+              disabled={disabled}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setDraft([...draft, { phrase: '' }])}
+            disabled={disabled}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add phrase
+          </Button>
+          <Button size="sm" onClick={() => onSave(draft)} disabled={disabled}>
+            Save
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => onSave([])} disabled={disabled}>
+            Reset to defaults
+          </Button>
+        </div>
+      </div>
+    </details>
+  )
+}
+
+// Component for choosing the microphone and speaker used for calls
+interface AudioDeviceSettingsProps {
+  inputs: AudioDeviceOption[]
+  outputs: AudioDeviceOption[]
+  selection: AudioDeviceSelection
+  isUsingFallback: boolean
+  disabled: boolean
+  onChange: (update: Partial<AudioDeviceSelection>) => void
+}
+
+function AudioDeviceSettings({ inputs, outputs, selection, isUsingFallback, disabled, onChange }: AudioDeviceSettingsProps) {
+  const selectClassName = 'h-9 rounded-md border border-input bg-background px-2 text-sm disabled:opacity-50'
+
+  return (
+    <details className="mb-6 rounded-md border p-4 text-sm">
+      <summary className="cursor-pointer font-semibold">Audio devices</summary>
+
+      <div className="mt-4 grid gap-3">
+        <label className="grid gap-1">
+          <span className="font-medium">Microphone</span>
+          <select
+            className={selectClassName}
+            value={selection.captureDeviceId}
+            onChange={(event) => onChange({ captureDeviceId: event.target.value })}
+            disabled={disabled}
+          >
+            <option value="default">System default</option>
+            {inputs.map(device => (
+              <option key={device.deviceId} value={device.deviceId}>{device.label}</option>
+            ))}
+          </select>
+        </label>
+
+        {/* Browsers without setSinkId report no outputs and always play through the default */}
+        {outputs.length > 0 && (
+          <label className="grid gap-1">
+            <span className="font-medium">Speaker</span>
+            <select
+              className={selectClassName}
+              value={selection.playbackDeviceId}
+              onChange={(event) => onChange({ playbackDeviceId: event.target.value })}
+              disabled={disabled}
+            >
+              <option value="default">System default</option>
+              {outputs.map(device => (
+                <option key={device.deviceId} value={device.deviceId}>{device.label}</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {isUsingFallback && (
+          <p className="text-muted-foreground">
+            A chosen device is unplugged, so the system default is used until it is back.
+          </p>
+        )}
+        {disabled && (
+          <p className="text-muted-foreground">Changes apply to the next call.</p>
+        )}
+      </div>
+    </details>
+  )
+}
+
+// Component for showing that audio is flowing in both directions
+interface AudioLevelPanelProps {
+  isCallActive: boolean
+  isMuted: boolean
+  captureDeviceId: string
+  agentSamplesRef: MutableRefObject<Float32Array | null>
+}
+
+function AudioLevelPanel({ isCallActive, isMuted, captureDeviceId, agentSamplesRef }: AudioLevelPanelProps) {
+  // Levels change every frame, so they live here rather than in VoiceBot state
+  const levels = useAudioLevels({ isActive: isCallActive, isMuted, captureDeviceId, agentSamplesRef })
+
+  const rows = [
+    { label: isMuted ? 'You (muted)' : 'You', level: levels.user, waveform: levels.userWaveform, color: 'bg-primary' },
+    { label: 'Assistant', level: levels.agent, waveform: levels.agentWaveform, color: 'bg-emerald-500' },
+  ]
+
+  return (
+    <div className="mb-6 grid gap-2 rounded-md border p-4 text-sm" aria-label="Audio levels">
+      {rows.map(row => (
+        <div key={row.label} className="flex items-center gap-3">
+          <span className="w-24 shrink-0 text-muted-foreground">{row.label}</span>
+          <div
+            className="h-2 w-24 shrink-0 overflow-hidden rounded-full bg-muted"
+            role="meter"
+            aria-label={`${row.label} level`}
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(row.level * 100)}
+          >
+            <div className={`h-full ${row.color}`} style={{ width: `${row.level * 100}%` }} />
+          </div>
+          <div className="flex h-8 flex-1 items-center gap-px">
+            {row.waveform.map((peak, index) => (
+              <div
+                key={index}
+                className={`flex-1 rounded-sm ${row.color}`}
+                style={{ height: `${Math.max(2, peak * 100)}%` }}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+      {!isCallActive && (
+        <p className="text-muted-foreground">Levels appear once a call starts.</p>
+      )}
     </div>
   )
 }
@@ -123,6 +584,87 @@ function ErrorDisplay({ error }: ErrorDisplayProps) {
   )
 }
 
+// Whole seconds until an epoch ms timestamp, ticking while one is set
+function useSecondsUntil(timestamp: number | null) {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (timestamp === null) return
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 250)
+    return () => clearInterval(interval)
+  }, [timestamp])
+
+  return timestamp === null ? 0 : Math.max(0, Math.ceil((timestamp - now) / 1000))
+}
+
+// Component for counting down to the next call setup attempt
+interface CallRetryNoticeProps {
+  retry: CallRetryState | null
+  canReconnect: boolean
+  onCancel: () => void
+  onReconnect: () => void
+}
+
+function CallRetryNotice({ retry, canReconnect, onCancel, onReconnect }: CallRetryNoticeProps) {
+  const seconds = useSecondsUntil(retry?.retryAt ?? null)
+
+  if (retry) {
+    return (
+      <div className="mb-6 flex items-center justify-between gap-4 rounded-md bg-muted p-4 text-sm" role="alert">
+        <span>
+          {retry.reason}. Retrying in {seconds}s (attempt {retry.attempt} of {retry.retries})...
+        </span>
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    )
+  }
+
+  if (!canReconnect) return null
+
+  return (
+    <div className="mb-6 flex items-center justify-between gap-4 rounded-md bg-muted p-4 text-sm">
+      <span>The connection dropped and could not be restored.</span>
+      <Button variant="outline" size="sm" onClick={onReconnect}>
+        <RefreshCw className="mr-2 h-4 w-4" />
+        Reconnect
+      </Button>
+    </div>
+  )
+}
+
+// Component for counting down to an automatic hang-up
+interface CallTimeoutNoticeProps {
+  warning: CallTimeoutWarning | null
+  onStayInCall: () => void
+}
+
+function CallTimeoutNotice({ warning, onStayInCall }: CallTimeoutNoticeProps) {
+  const seconds = useSecondsUntil(warning?.endsAt ?? null)
+
+  if (!warning) return null
+
+  // Only inactivity can be put off; the maximum duration is a hard limit
+  if (warning.reason === 'max-duration') {
+    return (
+      <div className="mb-6 rounded-md bg-muted p-4 text-sm" role="alert">
+        This call reaches its time limit and will end in {seconds}s.
+      </div>
+    )
+  }
+
+  return (
+    <div className="mb-6 flex items-center justify-between gap-4 rounded-md bg-muted p-4 text-sm" role="alert">
+      <span>No one has spoken for a while. The call will end in {seconds}s.</span>
+      <Button variant="outline" size="sm" onClick={onStayInCall}>
+        I&apos;m still here
+      </Button>
+    </div>
+  )
+}
+
 // Component for displaying live transcript
 interface LiveTranscriptProps {
   transcript: string
@@ -203,223 +745,104 @@ function MessageList({ messages }: MessageListProps) {
   )
 }
 
-// Component for handling wake word detection
-interface WakeWordDetectorProps {
-  isActive: boolean
-  onWakeWordDetected: () => void
-  onError: (error: string) => void
+// Component for exporting the conversation once a call has ended
+interface TranscriptExportProps {
+  messages: Message[]
+  callStartedAt: Date | null
+  disabled: boolean
 }
 
-function useWakeWordDetection({ 
-  isActive, 
-  onWakeWordDetected, 
-  onError 
-}: WakeWordDetectorProps) {
-  const { toast } = useToast()
-  
-  // Use refs to track state across renders
-  const recognitionRef = useRef<SpeechRecognition | null>(null)
-  const isRecognitionActiveRef = useRef<boolean>(false)
-  const wakeWordDetectedRef = useRef<boolean>(false)
-  const lastErrorTimeRef = useRef<number>(0)
-  const restartTimerRef = useRef<NodeJS.Timeout | null>(null)
-  const setupAttemptRef = useRef<number>(0)
-  
-  // Safely stop recognition
-  const safelyStopRecognition = useCallback(() => {
-    if (recognitionRef.current && isRecognitionActiveRef.current) {
-      try {
-        recognitionRef.current.stop();
-        isRecognitionActiveRef.current = false;
-      } catch (err) {
-        // Silently handle errors during stop
-      }
-    }
-  }, []);
-  
-  // Clean up all resources
-  const cleanup = useCallback(() => {
-    // Clear any pending timers
-    if (restartTimerRef.current) {
-      clearTimeout(restartTimerRef.current);
-      restartTimerRef.current = null;
-    }
-    
-    // Stop recognition if active
-    safelyStopRecognition();
-    
-    // Reset state
-    wakeWordDetectedRef.current = false;
-    isRecognitionActiveRef.current = false;
-    setupAttemptRef.current = 0;
-  }, [safelyStopRecognition]);
-  
-  // Set up the recognition instance
-  const setupRecognition = useCallback(() => {
-    // Clean up any existing instance
-    cleanup();
-    
-    // Check browser support
-    if (!('webkitSpeechRecognition' in window) && !('SpeechRecognition' in window)) {
-      // Only show toast on first attempt
-      if (setupAttemptRef.current === 0) {
-        toast({
-          title: "Browser Not Supported",
-          description: "Speech recognition is not supported in your browser.",
-          variant: "destructive"
-        });
-      }
-      return false;
-    }
-    
-    try {
-      // Create new recognition instance
-      const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-      const recognition = new SpeechRecognition();
-      
-      // Configure recognition
-      recognition.continuous = true;
-      recognition.interimResults = true;
-      recognition.lang = 'en-US';
-      
-      // Handle results
-      recognition.onresult = (event: SpeechRecognitionEvent) => {
-        if (wakeWordDetectedRef.current) return;
-        
-        const transcript = Array.from(event.results)
-          .map(result => result[0].transcript.toLowerCase())
-          .join(' ');
-        
-        if (transcript.includes(WAKE_WORD)) {
-          wakeWordDetectedRef.current = true;
-          safelyStopRecognition();
-          onWakeWordDetected();
-        }
-      };
-      
-      // Handle recognition end
-      recognition.onend = () => {
-        isRecognitionActiveRef.current = false;
-        
-        // If wake word wasn't detected and we should still be active, restart
-        if (!wakeWordDetectedRef.current && isActive) {
-          // Use exponential backoff for restarts
-          const delay = Math.min(1000 * Math.pow(1.5, setupAttemptRef.current), 10000);
-          
-          restartTimerRef.current = setTimeout(() => {
-            if (isActive && !wakeWordDetectedRef.current) {
-              startDetection();
-            }
-          }, delay);
-        }
-      };
-      
-      // Handle errors - but limit error reporting
-      recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
-        isRecognitionActiveRef.current = false;
-        
-        // Only log certain errors, and limit frequency
-        const now = Date.now();
-        const errorType = event.error;
-        
-        // Don't report 'aborted' errors or too frequent errors
-        if (errorType !== 'aborted' && now - lastErrorTimeRef.current > 5000) {
-          lastErrorTimeRef.current = now;
-          console.error(`[Wake Word Detection] Error: "${errorType}"`);
-          
-          // Only notify user of significant errors
-          if (errorType !== 'no-speech') {
-            onError(errorType);
-          }
-        }
-      };
-      
-      recognitionRef.current = recognition;
-      return true;
-    } catch (err) {
-      console.error('[Wake Word Detection] Setup error:', err);
-      return false;
-    }
-  }, [isActive, onWakeWordDetected, onError, cleanup, safelyStopRecognition, toast]);
-  
-  // Start detection
-  const startDetection = useCallback(() => {
-    // Don't start if already active
-    if (isRecognitionActiveRef.current) return;
-    
-    // Reset wake word flag
-    wakeWordDetectedRef.current = false;
-    
-    // Set up recognition if needed
-    if (!recognitionRef.current) {
-      if (!setupRecognition()) {
-        // If setup failed, increment attempt counter
-        setupAttemptRef.current++;
-        return;
-      }
-    }
-    
-    // Start recognition
-    try {
-      if (recognitionRef.current && !isRecognitionActiveRef.current) {
-        recognitionRef.current.start();
-        isRecognitionActiveRef.current = true;
-        setupAttemptRef.current = 0; // Reset attempt counter on success
-      }
-    } catch (err) {
-      console.error('[Wake Word Detection] Start error:', err);
-      isRecognitionActiveRef.current = false;
-      
-      // If start failed, try to recreate the recognition object
-      setupAttemptRef.current++;
-      if (setupAttemptRef.current < 5) {
-        setTimeout(() => {
-          if (isActive) {
-            setupRecognition();
-            startDetection();
-          }
-        }, 1000);
-      }
-    }
-  }, [isActive, setupRecognition]);
-  
-  // Stop detection
-  const stopDetection = useCallback(() => {
-    safelyStopRecognition();
-    
-    // Clear any pending restart
-    if (restartTimerRef.current) {
-      clearTimeout(restartTimerRef.current);
-      restartTimerRef.current = null;
-    }
-  }, [safelyStopRecognition]);
-  
-  // Effect to start/stop detection based on isActive prop
-  useEffect(() => {
-    if (isActive) {
-      // Add a small delay before starting
-      const timer = setTimeout(() => {
-        startDetection();
-      }, 500);
-      
-      return () => {
-        clearTimeout(timer);
-        stopDetection();
-      };
-    } else {
-      stopDetection();
-    }
-  }, [isActive, startDetection, stopDetection]);
-  
-  // Cleanup on unmount
-  useEffect(() => {
-    return cleanup;
-  }, [cleanup]);
-  
-  return {
-    startDetection,
-    stopDetection
-  };
+function TranscriptExport({ messages, callStartedAt, disabled }: TranscriptExportProps) {
+  const [format, setFormat] = useState<TranscriptExportFormat>('markdown')
+
+  if (!callStartedAt || messages.length === 0) return null
+
+  return (
+    <div className="flex items-center justify-end gap-2 mt-4">
+      <select
+        aria-label="Transcript format"
+        className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+        value={format}
+        onChange={(event) => setFormat(event.target.value as TranscriptExportFormat)}
+        disabled={disabled}
+      >
+        {TRANSCRIPT_EXPORT_FORMATS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      <Button
+        variant="outline"
+        onClick={() => downloadTranscript(messages, format, callStartedAt)}
+        disabled={disabled}
+      >
+        <Download className="mr-2 h-4 w-4" />
+        Export Transcript
+      </Button>
+    </div>
+  )
+}
+
+// Component for listing saved sessions
+interface SessionSidebarProps {
+  sessions: VoiceBotSession[]
+  currentCallId: string | null
+  disabled: boolean
+  onSelectSession: (session: VoiceBotSession) => void
+  onClearHistory: () => void
+}
+
+function SessionSidebar({
+  sessions,
+  currentCallId,
+  disabled,
+  onSelectSession,
+  onClearHistory
+}: SessionSidebarProps) {
+  return (
+    <Card className="w-full md:w-64 shrink-0">
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="font-semibold">Conversations</h2>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClearHistory}
+            disabled={disabled || sessions.length === 0}
+            aria-label="Clear history"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No saved conversations yet.</p>
+        ) : (
+          <ScrollArea className="h-[500px]">
+            <ul className="space-y-2">
+              {sessions.map((session) => {
+                const preview = session.messages.find(m => m.type !== 'system')?.content
+                return (
+                  <li key={session.callId}>
+                    <button
+                      type="button"
+                      className={`w-full rounded-md border p-2 text-left text-sm hover:bg-muted disabled:opacity-50 ${
+                        session.callId === currentCallId ? 'border-primary bg-muted' : ''
+                      }`}
+                      onClick={() => onSelectSession(session)}
+                      disabled={disabled}
+                    >
+                      <p className="font-medium">{session.startedAt.toLocaleString()}</p>
+                      <p className="truncate text-muted-foreground">{preview || `${session.messages.length} messages`}</p>
+                    </button>
+                  </li>
+                )
+              })}
+            </ul>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  )
 }
 
 // Main VoiceBot component
@@ -427,50 +850,109 @@ export default function VoiceBot() {
   const { toast } = useToast()
   
   const [state, setState] = useState<VoiceBotState>({
-    isCallActive: false,
-    isLoading: false,
     error: null,
     callStatus: 'idle',
+    callRetry: null,
+    callTimeout: null,
+    droppedCallId: null,
     messages: [],
     isListeningForWakeWord: false,
     liveTranscript: '',
-    liveTranscriptRole: null
+    liveTranscriptRole: null,
+    callStartedAt: null,
+    currentCallId: null,
+    selectedAgentId: null,
+    callerDetails: { callerName: '', variables: [] },
+    isMuted: false,
+    speakingState: 'silence',
+    turnLatencies: [],
+    locale: getDefaultLocale(),
+    wakeWords: getConfiguredWakeWords(),
+    voiceCommandsEnabled: getVoiceCommandsDefault(),
+    showAudioLevels: false
   })
+
+  // Connected (including while hanging up), and waiting on the SDK to connect or disconnect
+  const isCallActive = isCallLive(state.callStatus)
+  const isLoading = isCallTransitioning(state.callStatus)
   
-  // Prevent multiple simultaneous call starts
-  const isStartingCallRef = useRef<boolean>(false)
   const wakeWordDetectionEnabledRef = useRef<boolean>(false)
+  const hasRestoredSessionRef = useRef<boolean>(false)
+  const pendingSessionRef = useRef<VoiceBotSession | null>(null)
+  const callRequestedAtRef = useRef<number>(0) // messages older than this belong to the session on screen
+  const agentSamplesRef = useRef<Float32Array | null>(null)
+
+  const { sessions, isLoaded: isHistoryLoaded, persistSession, clearHistory } = useSessionHistory()
+  const { agents, defaultAgentId } = useAgentCatalogue()
+
+  // The SDK cannot switch devices mid-call, so an unplugged device is reported and dropped for the next call
+  const audioDevices = useAudioDevices({
+    onDeviceLost: (kind, device) => {
+      toast({
+        title: kind === 'input' ? 'Microphone disconnected' : 'Speaker disconnected',
+        description: `"${device.label}" was unplugged. The system default will be used until it is plugged back in.`,
+        variant: 'destructive'
+      })
+    }
+  })
 
   // Helper function to update state partially
   const updateState = useCallback((update: Partial<VoiceBotState>) => {
     setState(prev => ({ ...prev, ...update }))
   }, [])
 
-  // Handle wake word detection
-  const handleWakeWordDetected = useCallback(() => {
-    // Prevent multiple simultaneous call starts
-    if (isStartingCallRef.current || state.isCallActive || state.isLoading) return
+  // Only listen for phrases meant for the selected language
+  const activeWakeWords = useMemo(
+    () => getWakeWordsForLocale(state.wakeWords, state.locale),
+    [state.wakeWords, state.locale]
+  )
+  const activeVoiceCommands = useMemo(
+    () => getVoiceCommandsForLocale(DEFAULT_VOICE_COMMANDS, state.locale),
+    [state.locale]
+  )
+
+  // Append a system notice to the conversation
+  const addSystemMessage = useCallback((content: string) => {
+    setState(prev => ({
+      ...prev,
+      messages: [...prev.messages, {
+        id: uuidv4(),
+        type: 'system',
+        content,
+        timestamp: new Date(),
+        isComplete: true
+      }]
+    }))
+  }, [])
+
+  // Handle wake word detection, applying the phrase's agent and mute settings
+  const handleWakeWordDetected = useCallback((wakeWord: WakeWordConfig) => {
+    if (isCallActive || isLoading) return
     
+    const agentId = wakeWord.agentId ?? state.selectedAgentId
+    const agentName = agents.find(agent => agent.id === agentId)?.name
+    const details = [agentName && `with ${agentName}`, wakeWord.startMuted && 'muted'].filter(Boolean).join(', ')
+
+    callRequestedAtRef.current = Date.now()
     updateState({
       isListeningForWakeWord: false,
+      droppedCallId: null,
       messages: [...state.messages, {
         id: uuidv4(),
         type: 'system',
-        content: 'Wake word detected! Starting conversation...',
+        content: `Wake word "${wakeWord.phrase}" detected! Starting conversation${details ? ` (${details})` : ''}...`,
         timestamp: new Date(),
         isComplete: true
       }]
     })
     
-    // Set flag to prevent multiple calls
-    isStartingCallRef.current = true
-    
-    // Small delay to ensure UI updates before starting call
-    setTimeout(() => {
-      startCall()
-      isStartingCallRef.current = false
-    }, 800)
-  }, [state.messages, state.isCallActive, state.isLoading, updateState])
+    // useRetellClient ignores the request if a call is already connecting
+    startCall(toCreateCallRequest(agentId, state.callerDetails, state.locale), {
+      ...audioDevices.selection,
+      startMuted: wakeWord.startMuted,
+      emitRawAudioSamples: state.showAudioLevels
+    })
+  }, [agents, audioDevices.selection, state.showAudioLevels, state.messages, isCallActive, isLoading, state.selectedAgentId, state.callerDetails, state.locale, updateState])
 
   // Handle wake word detection errors
   const handleWakeWordError = useCallback((error: string) => {
@@ -487,7 +969,7 @@ export default function VoiceBot() {
   // Start wake word detection
   const startWakeWordDetection = useCallback(() => {
     // Don't start wake word detection if a call is active or loading
-    if (state.isCallActive || state.isLoading) return
+    if (isCallActive || isLoading) return
     
     // Only add a message if we're newly enabling wake word detection
     if (!wakeWordDetectionEnabledRef.current) {
@@ -496,7 +978,7 @@ export default function VoiceBot() {
         messages: [...state.messages, {
           id: uuidv4(),
           type: 'system',
-          content: `Listening for wake word: "${WAKE_WORD}"`,
+          content: `Listening for wake ${activeWakeWords.length === 1 ? 'word' : 'words'}: ${formatWakeWords(activeWakeWords)}`,
           timestamp: new Date(),
           isComplete: true
         }]
@@ -506,7 +988,7 @@ export default function VoiceBot() {
       // Just update the state without adding a new message
       updateState({ isListeningForWakeWord: true })
     }
-  }, [state.messages, state.isCallActive, state.isLoading, updateState])
+  }, [state.messages, activeWakeWords, isCallActive, isLoading, updateState])
 
   // Stop wake word detection
   const stopWakeWordDetection = useCallback(() => {
@@ -517,30 +999,69 @@ export default function VoiceBot() {
   // Use the wake word detection hook
   useWakeWordDetection({
     isActive: state.isListeningForWakeWord,
+    wakeWords: activeWakeWords,
+    lang: state.locale,
+    sensitivity: getWakeWordSensitivity(),
     onWakeWordDetected: handleWakeWordDetected,
     onError: handleWakeWordError
   })
 
+  const handleAgentAudio = useCallback((samples: Float32Array) => {
+    agentSamplesRef.current = samples
+  }, [])
+
   // Use the Retell client hook
   const { 
     startCall, 
     endCall,
+    mute,
+    unmute,
+    cancelRetry,
+    reconnect,
+    keepAlive,
     isInitialized
   } = useRetellClient({
-    onCallStarted: () => {
-      updateState({ 
-        isCallActive: true, 
-        isLoading: false,
-        callStatus: 'ongoing' 
-      })
+    onCallStateChange: (callStatus: CallLifecycleState) => {
+      updateState({ callStatus })
+    },
+    onRetryChange: (callRetry: CallRetryState | null) => {
+      updateState({ callRetry })
+    },
+    onTimeoutWarning: (callTimeout: CallTimeoutWarning | null) => {
+      updateState({ callTimeout })
+    },
+    onConnectionLost: (callId: string) => {
+      updateState({ droppedCallId: callId })
+      addSystemMessage('Connection lost. Reconnecting...')
+    },
+    onCallStarted: (callId: string) => {
+      setState(prev => ({
+        ...prev,
+        callStartedAt: new Date(),
+        currentCallId: callId,
+        turnLatencies: [],
+        droppedCallId: null,
+        // A new call starts a new session; clear the transcript of one already saved but keep
+        // the notices added for this call, unless this call replaces one that dropped
+        messages: prev.droppedCallId
+          ? [...prev.messages, {
+            id: uuidv4(),
+            type: 'system',
+            content: 'Reconnected. The conversation continues in a new call.',
+            timestamp: new Date(),
+            isComplete: true
+          }]
+          : prev.currentCallId
+            ? prev.messages.filter(message => new Date(message.timestamp).getTime() >= callRequestedAtRef.current)
+            : prev.messages
+      }))
       wakeWordDetectionEnabledRef.current = false
+      // Device names are only readable once microphone access has been granted
+      audioDevices.refresh()
     },
     onCallEnded: () => {
-      updateState({ 
-        isCallActive: false,
-        callStatus: 'ended',
-        isLoading: false
-      })
+      updateState({ isMuted: false })
+      agentSamplesRef.current = null
       
       // Add a small delay before starting wake word detection again
       setTimeout(() => {
@@ -548,21 +1069,13 @@ export default function VoiceBot() {
       }, 1500)
     },
     onError: (error: string) => {
-      updateState({
-        error: error,
-        callStatus: 'error',
-        isCallActive: false,
-        isLoading: false
-      })
+      updateState({ error: error })
       
       // Add a small delay before starting wake word detection again
       setTimeout(() => {
         startWakeWordDetection()
       }, 1500)
     },
-    onLoading: (isLoading: boolean) => {
-      updateState({ isLoading })
-    },
     onTranscriptUpdate: (role: string, content: string) => {
       setState(prev => {
         // Find the last message from the same role that isn't complete
@@ -625,12 +1138,82 @@ export default function VoiceBot() {
           messages: updatedMessages
         }
       })
+    },
+    onMuteChange: (isMuted: boolean) => {
+      updateState({ isMuted })
+    },
+    // Kept in a ref and read by the level meter each frame, so it never re-renders VoiceBot
+    onAudio: handleAgentAudio,
+    onSpeakingStateChange: (speakingState: SpeakingState) => {
+      updateState({ speakingState })
+    },
+    onTurnLatency: (latencyMs: number) => {
+      setState(prev => ({ ...prev, turnLatencies: [...prev.turnLatencies, latencyMs] }))
     }
   })
 
+  // Load wake words saved in this browser
+  useEffect(() => {
+    updateState({ wakeWords: loadWakeWords() })
+  }, [updateState])
+
+  // Load the language chosen in this browser
+  useEffect(() => {
+    updateState({ locale: loadLocale() })
+  }, [updateState])
+
+  // Preselect the server's default agent once the catalogue has loaded
+  useEffect(() => {
+    if (!defaultAgentId) return
+    setState(prev => prev.selectedAgentId ? prev : { ...prev, selectedAgentId: defaultAgentId })
+  }, [defaultAgentId])
+
+  // Restore the most recent session once saved history has loaded
+  useEffect(() => {
+    if (!isHistoryLoaded || hasRestoredSessionRef.current) return
+    hasRestoredSessionRef.current = true
+
+    const latest = sessions[0]
+    if (!latest) return
+
+    setState(prev => prev.currentCallId || isCallLive(prev.callStatus) ? prev : {
+      ...prev,
+      currentCallId: latest.callId,
+      callStartedAt: latest.startedAt,
+      messages: [...latest.messages, ...prev.messages]
+    })
+  }, [isHistoryLoaded, sessions])
+
+  // Save the conversation while a call is running
+  useEffect(() => {
+    if (!isCallActive || !state.currentCallId || !state.callStartedAt) return
+
+    const session: VoiceBotSession = {
+      callId: state.currentCallId,
+      startedAt: state.callStartedAt,
+      updatedAt: new Date(),
+      messages: state.messages
+    }
+    pendingSessionRef.current = session
+
+    const timer = setTimeout(() => {
+      persistSession(session)
+    }, SESSION_SAVE_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [isCallActive, state.currentCallId, state.callStartedAt, state.messages, persistSession])
+
+  // Flush the last snapshot as soon as the call ends
+  useEffect(() => {
+    if (isCallActive || !pendingSessionRef.current) return
+
+    persistSession({ ...pendingSessionRef.current, updatedAt: new Date() })
+    pendingSessionRef.current = null
+  }, [isCallActive, persistSession])
+
   // Start listening for wake word by default
   useEffect(() => {
-    if (isInitialized && !state.isCallActive && !state.isLoading) {
+    if (isInitialized && !isCallActive && !isLoading) {
       // Small delay to ensure everything is properly initialized
       const timer = setTimeout(() => {
         startWakeWordDetection()
@@ -638,56 +1221,208 @@ export default function VoiceBot() {
       
       return () => clearTimeout(timer)
     }
-  }, [isInitialized, state.isCallActive, state.isLoading, startWakeWordDetection])
+  }, [isInitialized, isCallActive, isLoading, startWakeWordDetection])
+
+  // Switch language, moving to an agent that speaks it when the catalogue has one,
+  // otherwise back to the default agent or one without a fixed language
+  const handleSelectLocale = useCallback((locale: string) => {
+    saveLocale(locale)
+    const agent = agents.find(candidate => candidate.locale && matchesLocale(candidate.locale, locale))
+      ?? agents.find(candidate => candidate.id === defaultAgentId)
+      ?? agents.find(candidate => !candidate.locale)
+    updateState(agent ? { locale, selectedAgentId: agent.id } : { locale })
+  }, [agents, defaultAgentId, updateState])
 
   // Handle starting a call
   const handleStartCall = useCallback(() => {
-    // Prevent multiple simultaneous call starts
-    if (isStartingCallRef.current || state.isCallActive || state.isLoading) return
+    if (isCallActive || isLoading) return
     
-    isStartingCallRef.current = true
+    callRequestedAtRef.current = Date.now()
     updateState({ 
       error: null,
-      isListeningForWakeWord: false
+      isListeningForWakeWord: false,
+      droppedCallId: null
     })
     
-    startCall()
-    isStartingCallRef.current = false
-  }, [startCall, state.isCallActive, state.isLoading, updateState])
+    startCall(toCreateCallRequest(state.selectedAgentId, state.callerDetails, state.locale), {
+      ...audioDevices.selection,
+      emitRawAudioSamples: state.showAudioLevels
+    })
+  }, [startCall, audioDevices.selection, state.showAudioLevels, isCallActive, isLoading, state.selectedAgentId, state.callerDetails, state.locale, updateState])
 
   // Handle ending a call
   const handleEndCall = useCallback(() => {
-    updateState({ isLoading: true })
     endCall()
-  }, [endCall, updateState])
+  }, [endCall])
+
+  // Route spoken commands to the call controls
+  const handleVoiceCommand = useCallback((command: VoiceCommand) => {
+    addSystemMessage(VOICE_COMMAND_CONFIRMATIONS[command.action])
+
+    switch (command.action) {
+      case 'end-call':
+        handleEndCall()
+        break
+      case 'mute':
+        mute()
+        break
+      case 'unmute':
+        unmute()
+        break
+    }
+  }, [addSystemMessage, handleEndCall, mute, unmute])
+
+  const handleToggleMute = useCallback(() => {
+    if (state.isMuted) {
+      unmute()
+    } else {
+      mute()
+    }
+  }, [state.isMuted, mute, unmute])
+
+  // Only runs during a call, when the wake word recognizer is stopped, so the two never
+  // compete for the microphone
+  useVoiceCommands({
+    isActive: state.voiceCommandsEnabled && isCallActive && !state.isListeningForWakeWord,
+    commands: activeVoiceCommands,
+    lang: state.locale,
+    onCommand: handleVoiceCommand,
+    onError: handleWakeWordError
+  })
+
+  // Show a saved session in place of the current conversation
+  const handleSelectSession = useCallback((session: VoiceBotSession) => {
+    if (isCallActive || isLoading) return
+
+    updateState({
+      currentCallId: session.callId,
+      callStartedAt: session.startedAt,
+      messages: session.messages,
+      error: null
+    })
+  }, [isCallActive, isLoading, updateState])
+
+  // Delete all saved sessions and clear the conversation on screen
+  const handleClearHistory = useCallback(async () => {
+    if (isCallActive || isLoading) return
+
+    await clearHistory()
+    updateState({
+      currentCallId: null,
+      callStartedAt: null,
+      messages: []
+    })
+  }, [clearHistory, isCallActive, isLoading, updateState])
 
   return (
-    <Card className="w-full max-w-2xl mx-auto">
-      <CardContent className="p-6">
-        {/* Control buttons and status */}
-        <CallControls
-          isCallActive={state.isCallActive}
-          isLoading={state.isLoading}
-          isListeningForWakeWord={state.isListeningForWakeWord}
-          callStatus={state.callStatus}
-          onStartCall={handleStartCall}
-          onEndCall={handleEndCall}
-          onStartWakeWordDetection={startWakeWordDetection}
-          onStopWakeWordDetection={stopWakeWordDetection}
-        />
-
-        {/* Error display */}
-        <ErrorDisplay error={state.error} />
-
-        {/* Live transcript display */}
-        <LiveTranscript 
-          transcript={state.liveTranscript} 
-          role={state.liveTranscriptRole} 
-        />
-
-        {/* Chat history display */}
-        <MessageList messages={state.messages} />
-      </CardContent>
-    </Card>
+    <div className="flex flex-col md:flex-row gap-4 w-full max-w-5xl mx-auto">
+      {/* Saved sessions */}
+      <SessionSidebar
+        sessions={sessions}
+        currentCallId={state.currentCallId}
+        disabled={isCallActive || isLoading}
+        onSelectSession={handleSelectSession}
+        onClearHistory={handleClearHistory}
+      />
+
+      <Card className="w-full max-w-2xl mx-auto md:mx-0 flex-1">
+        <CardContent className="p-6">
+          {/* Control buttons and status */}
+          <CallControls
+            isCallActive={isCallActive}
+            isLoading={isLoading}
+            isListeningForWakeWord={state.isListeningForWakeWord}
+            isMuted={state.isMuted}
+            speakingState={state.speakingState}
+            turnLatencies={state.turnLatencies}
+            callStatus={state.callStatus}
+            wakeWords={activeWakeWords}
+            voiceCommands={activeVoiceCommands}
+            agents={agents}
+            selectedAgentId={state.selectedAgentId}
+            locale={state.locale}
+            voiceCommandsEnabled={state.voiceCommandsEnabled}
+            onSelectAgent={(agentId) => updateState({ selectedAgentId: agentId })}
+            onSelectLocale={handleSelectLocale}
+            onToggleVoiceCommands={(enabled) => updateState({ voiceCommandsEnabled: enabled })}
+            onToggleMute={handleToggleMute}
+            showAudioLevels={state.showAudioLevels}
+            onToggleAudioLevels={(enabled) => updateState({ showAudioLevels: enabled })}
+            onStartCall={handleStartCall}
+            onEndCall={handleEndCall}
+            onStartWakeWordDetection={startWakeWordDetection}
+            onStopWakeWordDetection={stopWakeWordDetection}
+          />
+
+          {/* Caller details sent with the next call */}
+          <PreCallForm
+            details={state.callerDetails}
+            disabled={isCallActive || isLoading}
+            onChange={(callerDetails) => updateState({ callerDetails })}
+          />
+
+          {/* Microphone and speaker for calls */}
+          <AudioDeviceSettings
+            inputs={audioDevices.inputs}
+            outputs={audioDevices.outputs}
+            selection={audioDevices.selection}
+            isUsingFallback={audioDevices.isUsingFallback}
+            disabled={isCallActive || isLoading}
+            onChange={audioDevices.selectDevices}
+          />
+
+          {/* Wake phrases and their actions */}
+          <WakeWordSettings
+            wakeWords={state.wakeWords}
+            agents={agents}
+            disabled={isCallActive || isLoading}
+            onSave={(wakeWords) => updateState({ wakeWords: saveWakeWords(wakeWords) })}
+          />
+
+          {/* Microphone and agent audio levels */}
+          {state.showAudioLevels && (
+            <AudioLevelPanel
+              isCallActive={isCallActive}
+              isMuted={state.isMuted}
+              captureDeviceId={audioDevices.selection.captureDeviceId}
+              agentSamplesRef={agentSamplesRef}
+            />
+          )}
+
+          {/* Error display */}
+          <ErrorDisplay error={state.error} />
+
+          {/* Call setup retries and reconnecting after a dropped call */}
+          <CallRetryNotice
+            retry={state.callRetry}
+            canReconnect={Boolean(state.droppedCallId) && state.callStatus === 'error'}
+            onCancel={cancelRetry}
+            onReconnect={() => {
+              updateState({ error: null })
+              reconnect()
+            }}
+          />
+
+          {/* Countdown before an automatic hang-up */}
+          <CallTimeoutNotice warning={state.callTimeout} onStayInCall={keepAlive} />
+
+          {/* Live transcript display */}
+          <LiveTranscript 
+            transcript={state.liveTranscript} 
+            role={state.liveTranscriptRole} 
+          />
+
+          {/* Chat history display */}
+          <MessageList messages={state.messages} />
+
+          {/* Transcript export, available once the call is over */}
+          <TranscriptExport
+            messages={state.messages}
+            callStartedAt={state.callStartedAt}
+            disabled={isCallActive || isLoading}
+          />
+        </CardContent>
+      </Card>
+    </div>
   )
 }
\ No newline at end of file
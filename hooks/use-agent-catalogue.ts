@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react'
+import type { GetAgentsResponse, RetellAgent } from '@/types/retell'
+
+// Loads the server-side agent catalogue once on mount
+export function useAgentCatalogue() {
+  const [agents, setAgents] = useState<RetellAgent[]>([])
+  const [defaultAgentId, setDefaultAgentId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadAgents = async () => {
+      try {
+        const response = await fetch('/api/retell/agents')
+        if (!response.ok) {
+          const { error } = await response.json().catch(() => ({ error: undefined }))
+          throw new Error(error || 'Failed to load agents')
+        }
+
+        const { data, default_agent_id }: GetAgentsResponse = await response.json()
+        if (cancelled) return
+        setAgents(data)
+        setDefaultAgentId(default_agent_id ?? data[0]?.id ?? null)
+      } catch (err) {
+        console.error('[AgentCatalogue] Failed to load agents:', err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load agents')
+      }
+    }
+
+    loadAgents()
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return {
+    agents,
+    defaultAgentId,
+    error
+  }
+}
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import {
+  DEFAULT_AUDIO_DEVICES,
+  isMediaDevicesSupported,
+  listAudioDevices,
+  loadAudioDevices,
+  resolveAudioDevices,
+  saveAudioDevices,
+  type AudioDeviceList,
+} from '@/lib/media-devices'
+import type { AudioDeviceOption, AudioDeviceSelection } from '@/types/voice-bot'
+
+interface UseAudioDevicesOptions {
+  // Called when the selected microphone or speaker is unplugged
+  onDeviceLost?: (kind: 'input' | 'output', device: AudioDeviceOption) => void
+}
+
+// Lists microphones and speakers, remembers the chosen ones and follows devicechange.
+// The saved choice is kept while a device is unplugged so it comes back when plugged in again.
+export function useAudioDevices({ onDeviceLost }: UseAudioDevicesOptions = {}) {
+  const [devices, setDevices] = useState<AudioDeviceList>({ inputs: [], outputs: [] })
+  const [preferred, setPreferred] = useState<AudioDeviceSelection>(DEFAULT_AUDIO_DEVICES)
+  const devicesRef = useRef(devices)
+  const preferredRef = useRef(preferred)
+  const onDeviceLostRef = useRef(onDeviceLost)
+  onDeviceLostRef.current = onDeviceLost
+  preferredRef.current = preferred
+
+  const refresh = useCallback(async () => {
+    try {
+      const next = await listAudioDevices()
+      const previous = devicesRef.current
+      devicesRef.current = next
+      setDevices(next)
+
+      // Report a chosen device that was present before and has now gone
+      const { captureDeviceId, playbackDeviceId } = preferredRef.current
+      const lostInput = previous.inputs.find(device => device.deviceId === captureDeviceId)
+      const lostOutput = previous.outputs.find(device => device.deviceId === playbackDeviceId)
+      if (lostInput && !next.inputs.some(device => device.deviceId === captureDeviceId)) {
+        onDeviceLostRef.current?.('input', lostInput)
+      }
+      if (lostOutput && !next.outputs.some(device => device.deviceId === playbackDeviceId)) {
+        onDeviceLostRef.current?.('output', lostOutput)
+      }
+    } catch (err) {
+      console.error('[AudioDevices] Failed to list devices:', err)
+    }
+  }, [])
+
+  // Load the saved choice and follow devices being plugged in or removed
+  useEffect(() => {
+    setPreferred(loadAudioDevices())
+    if (!isMediaDevicesSupported()) return
+
+    refresh()
+    navigator.mediaDevices.addEventListener('devicechange', refresh)
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh)
+  }, [refresh])
+
+  const selectDevices = useCallback((update: Partial<AudioDeviceSelection>) => {
+    setPreferred(prev => {
+      const next = { ...prev, ...update }
+      saveAudioDevices(next)
+      return next
+    })
+  }, [])
+
+  // Before the first listing every saved ID is unknown, so wait for it rather than falling back
+  const hasListed = devices.inputs.length > 0 || devices.outputs.length > 0
+  const selection = useMemo(
+    () => hasListed ? resolveAudioDevices(preferred, devices) : preferred,
+    [hasListed, preferred, devices]
+  )
+
+  return {
+    isSupported: isMediaDevicesSupported(),
+    inputs: devices.inputs,
+    outputs: devices.outputs,
+    selection,
+    isUsingFallback: selection.captureDeviceId !== preferred.captureDeviceId
+      || selection.playbackDeviceId !== preferred.playbackDeviceId,
+    selectDevices,
+    refresh
+  }
+}
@@ -0,0 +1,104 @@
+import { useEffect, useRef, useState, type MutableRefObject } from 'react'
+import { rmsLevel, SILENT_LEVELS, SILENT_WAVEFORM, smoothLevel, toWaveform, type AudioLevels } from '@/lib/audio-levels'
+
+const ANALYSER_FFT_SIZE = 1024
+
+interface UseAudioLevelsOptions {
+  isActive: boolean
+  isMuted: boolean
+  captureDeviceId: string
+  // Latest agent samples from the Retell client's audio event; read once per frame
+  agentSamplesRef: MutableRefObject<Float32Array | null>
+}
+
+// Open a second stream on the call microphone so its level can be measured.
+// The Retell SDK only exposes the agent's audio.
+async function openMicrophoneAnalyser(captureDeviceId: string) {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: captureDeviceId === 'default' ? true : { deviceId: { exact: captureDeviceId } }
+  })
+  const context = new AudioContext()
+  const analyser = context.createAnalyser()
+  analyser.fftSize = ANALYSER_FFT_SIZE
+  context.createMediaStreamSource(stream).connect(analyser)
+
+  return {
+    analyser,
+    close: () => {
+      stream.getTracks().forEach(track => track.stop())
+      context.close().catch(() => {})
+    }
+  }
+}
+
+// Measures the user's and the agent's audio while active, updating at most once per animation frame
+export function useAudioLevels({ isActive, isMuted, captureDeviceId, agentSamplesRef }: UseAudioLevelsOptions): AudioLevels {
+  const [levels, setLevels] = useState<AudioLevels>(SILENT_LEVELS)
+  const analyserRef = useRef<AnalyserNode | null>(null)
+  const isMutedRef = useRef(isMuted)
+  isMutedRef.current = isMuted
+
+  // Microphone analyser for the duration of the call
+  useEffect(() => {
+    if (!isActive || typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia || typeof AudioContext === 'undefined') {
+      return
+    }
+
+    let closeAnalyser: (() => void) | null = null
+    let cancelled = false
+    openMicrophoneAnalyser(captureDeviceId)
+      .then(({ analyser, close }) => {
+        if (cancelled) {
+          close()
+          return
+        }
+        analyserRef.current = analyser
+        closeAnalyser = close
+      })
+      .catch(err => console.error('[AudioLevels] Failed to open microphone:', err))
+
+    return () => {
+      cancelled = true
+      analyserRef.current = null
+      closeAnalyser?.()
+    }
+  }, [isActive, captureDeviceId])
+
+  // One state update per frame however often the agent audio event fires
+  useEffect(() => {
+    if (!isActive) {
+      setLevels(SILENT_LEVELS)
+      return
+    }
+
+    let frame = 0
+    let userSamples: Float32Array | null = null
+    const tick = () => {
+      const analyser = analyserRef.current
+      if (analyser && !isMutedRef.current) {
+        if (userSamples?.length !== analyser.fftSize) userSamples = new Float32Array(analyser.fftSize)
+        analyser.getFloatTimeDomainData(userSamples)
+      }
+      const user = analyser && !isMutedRef.current ? userSamples : null
+      const agent = agentSamplesRef.current
+
+      setLevels(prev => {
+        const next = {
+          user: smoothLevel(prev.user, user ? rmsLevel(user) : 0),
+          agent: smoothLevel(prev.agent, agent ? rmsLevel(agent) : 0),
+          userWaveform: user ? toWaveform(user) : SILENT_WAVEFORM,
+          agentWaveform: agent ? toWaveform(agent) : SILENT_WAVEFORM,
+        }
+        // Returning the same object lets React skip the render while nothing is heard
+        const isSilent = !user && !agent && next.user < 0.01 && next.agent < 0.01
+        return isSilent ? SILENT_LEVELS : next
+      })
+      frame = requestAnimationFrame(tick)
+    }
+    frame = requestAnimationFrame(tick)
+
+    return () => cancelAnimationFrame(frame)
+  }, [isActive, agentSamplesRef])
+
+  return levels
+}
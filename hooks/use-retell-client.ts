@@ -1,39 +1,139 @@
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useRef, useState, type MutableRefObject } from 'react'
 import { RetellWebClient } from 'retell-client-js-sdk'
-import { retellConfig } from '@/lib/retell-config'
+import type { CreateCallRequest } from '@/types/retell'
+import { nextCallState, type CallLifecycleEvent } from '@/lib/call-lifecycle'
+import { withRetry } from '@/lib/async-utils'
+import { CallSetupError, getCallRetryPolicy, isRetryableCallError, type CallRetryPolicy } from '@/lib/call-retry'
+import { DEFAULT_CALL_LIMITS, getCallLimits, type CallLimits } from '@/lib/call-limits'
+import type { CallLifecycleState, CallRetryState, CallTimeoutReason, CallTimeoutWarning, SpeakingState } from '@/types/voice-bot'
 
 // Constants for call management
-const MIN_CALL_DURATION_MS = 10000 // Minimum call duration (10 seconds) to prevent accidental endings
-const INACTIVITY_TIMEOUT_MS = 300000 // Inactivity timeout (5 minutes)
 const DEBOUNCE_TIME_MS = 500 // Debounce time for client operations
+const USER_SPEECH_TIMEOUT_MS = 1500 // Treat the user as silent after this long without new transcript
+
+// SDK events handled by the hook, with the payloads the SDK sends
+interface ClientEventHandlers {
+  update: (update: {
+    transcript?: { role: string; content: string }[];
+    llmResponse?: string;
+    response?: string | { content?: string; text?: string }
+  }) => void
+  sentence_complete: () => void
+  call_started: () => void
+  agent_start_talking: () => void
+  agent_stop_talking: () => void
+  audio: (samples: Float32Array) => void
+  error: (error: { message?: string }) => void
+  call_ended: () => void
+}
+
+const CLIENT_EVENTS: (keyof ClientEventHandlers)[] = [
+  'update',
+  'sentence_complete',
+  'call_started',
+  'agent_start_talking',
+  'agent_stop_talking',
+  'audio',
+  'error',
+  'call_ended'
+]
+
+// Forward a client's events to whatever handlers are current when they arrive,
+// so every instance reaches the latest callbacks without re-subscribing
+function forwardClientEvents(client: RetellWebClient, handlersRef: MutableRefObject<ClientEventHandlers | null>) {
+  for (const event of CLIENT_EVENTS) {
+    client.on(event, (payload?: unknown) => {
+      const handler = handlersRef.current?.[event] as ((payload?: unknown) => void) | undefined
+      handler?.(payload)
+    })
+  }
+}
 
 interface RetellClientOptions {
-  onCallStarted: () => void
+  onCallStarted: (callId: string) => void
   onCallEnded: () => void
   onError: (error: string) => void
-  onLoading: (isLoading: boolean) => void
+  onCallStateChange: (callState: CallLifecycleState) => void
   onTranscriptUpdate: (role: string, content: string) => void
   onResponseUpdate: (content: string) => void
   onSentenceComplete: () => void
+  onMuteChange: (isMuted: boolean) => void
+  onAudio?: (samples: Float32Array) => void // agent audio, once per frame when emitRawAudioSamples is set
+  onSpeakingStateChange?: (speakingState: SpeakingState) => void
+  onTurnLatency?: (latencyMs: number) => void // user's last words to the agent starting to talk
+  onRetryChange?: (retry: CallRetryState | null) => void // a setup retry is waiting, or null once it runs
+  onConnectionLost?: (callId: string) => void // the network dropped mid-call; a reconnect follows
+  onTimeoutWarning?: (warning: CallTimeoutWarning | null) => void // an automatic hang-up is counting down, or null once cancelled
+  retryPolicy?: Partial<CallRetryPolicy>
+  limits?: Partial<CallLimits> // overrides the configured limits for calls started from now on
+}
+
+interface StartCallOptions {
+  startMuted?: boolean
+  captureDeviceId?: string // microphone from enumerateDevices, 'default' for the system one
+  playbackDeviceId?: string // speaker; omitted uses the browser's output
+  emitRawAudioSamples?: boolean // emit the agent's audio samples for visualisation
 }
 
 export function useRetellClient({
   onCallStarted,
   onCallEnded,
   onError,
-  onLoading,
+  onCallStateChange,
   onTranscriptUpdate,
   onResponseUpdate,
-  onSentenceComplete
+  onSentenceComplete,
+  onMuteChange,
+  onAudio,
+  onSpeakingStateChange,
+  onTurnLatency,
+  onRetryChange,
+  onConnectionLost,
+  onTimeoutWarning,
+  retryPolicy,
+  limits
 }: RetellClientOptions) {
   const clientRef = useRef<RetellWebClient | null>(null)
+  const eventHandlersRef = useRef<ClientEventHandlers | null>(null)
   const [isInitialized, setIsInitialized] = useState(false)
+  const [callState, setCallState] = useState<CallLifecycleState>('idle')
+  const callStateRef = useRef<CallLifecycleState>('idle') // read synchronously to reject overlapping requests
   const callStartTimeRef = useRef<number | null>(null)
   const lastActivityTimeRef = useRef<number | null>(null)
   const inactivityTimerRef = useRef<NodeJS.Timeout | null>(null)
-  const isEndingCallRef = useRef<boolean>(false)
-  const isStartingCallRef = useRef<boolean>(false)
+  const maxDurationTimerRef = useRef<NodeJS.Timeout | null>(null)
+  const callLimitsRef = useRef<CallLimits>(DEFAULT_CALL_LIMITS) // resolved when the current call connects
+  const timeoutWarningRef = useRef<CallTimeoutWarning | null>(null)
   const operationTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const speakingStateRef = useRef<SpeakingState>('silence')
+  const userSpeechTimerRef = useRef<NodeJS.Timeout | null>(null)
+  const lastUserTranscriptRef = useRef<string | null>(null)
+  const lastUserSpeechAtRef = useRef<number | null>(null) // cleared once the agent answers
+  const retryAbortRef = useRef<AbortController | null>(null)
+  const lastCallRef = useRef<{ callId: string; request: CreateCallRequest; options: StartCallOptions } | null>(null)
+  const wentOfflineRef = useRef(false) // the browser lost its network during the current call
+
+  const setTimeoutWarning = useCallback((warning: CallTimeoutWarning | null) => {
+    timeoutWarningRef.current = warning
+    onTimeoutWarning?.(warning)
+  }, [onTimeoutWarning])
+
+  // Move the call lifecycle on, or return false when the event is not allowed in the current state
+  const transition = useCallback((event: CallLifecycleEvent) => {
+    const next = nextCallState(callStateRef.current, event)
+    if (!next) {
+      console.log(`[RetellClient] Ignoring "${event}" while ${callStateRef.current}`)
+      return false
+    }
+    callStateRef.current = next
+    setCallState(next)
+    onCallStateChange(next)
+    // A hang-up countdown only applies to an ongoing call
+    if (next !== 'ongoing' && timeoutWarningRef.current) {
+      setTimeoutWarning(null)
+    }
+    return true
+  }, [onCallStateChange, setTimeoutWarning])
 
   // Cleanup function to ensure proper resource release
   const cleanupClient = useCallback(() => {
@@ -45,11 +145,15 @@ export function useRetellClient({
       operationTimeoutRef.current = null
     }
     
-    // Clear any inactivity timers
+    // Clear any inactivity and call duration timers
     if (inactivityTimerRef.current) {
       clearTimeout(inactivityTimerRef.current)
       inactivityTimerRef.current = null
     }
+    if (maxDurationTimerRef.current) {
+      clearTimeout(maxDurationTimerRef.current)
+      maxDurationTimerRef.current = null
+    }
     
     // Clean up the client if it exists
     if (clientRef.current) {
@@ -71,11 +175,9 @@ export function useRetellClient({
       }
     }
     
-    // Reset all state
+    // Reset timing; the lifecycle state is only changed through transition()
     callStartTimeRef.current = null
     lastActivityTimeRef.current = null
-    isEndingCallRef.current = false
-    isStartingCallRef.current = false
   }, [])
 
   // Initialize Retell client
@@ -83,9 +185,11 @@ export function useRetellClient({
     // Clean up any existing client first
     cleanupClient()
     
-    // Create a new client
+    // Create a new client; the previous one lost its listeners in cleanupClient
     console.log('[RetellClient] Initializing new client')
-    clientRef.current = new RetellWebClient()
+    const client = new RetellWebClient()
+    forwardClientEvents(client, eventHandlersRef)
+    clientRef.current = client
     setIsInitialized(true)
   }, [cleanupClient])
 
@@ -95,217 +199,400 @@ export function useRetellClient({
     
     // Cleanup on unmount
     return () => {
+      retryAbortRef.current?.abort()
       cleanupClient()
     }
   }, [initializeClient, cleanupClient])
 
-  // Reset inactivity timer
+  // End a call with debouncing to prevent multiple simultaneous calls
+  const endCall = useCallback(async () => {
+    // Hanging up is only allowed once connected, and only once
+    if (!transition('end')) return
+    
+    // Clear any pending operation timeouts
+    if (operationTimeoutRef.current) {
+      clearTimeout(operationTimeoutRef.current)
+    }
+    
+    // Debounce the operation
+    operationTimeoutRef.current = setTimeout(async () => {
+      if (!clientRef.current) {
+        transition('ended')
+        onCallEnded()
+        return
+      }
+      
+      try {
+        console.log('[RetellClient] Ending call')
+        await clientRef.current.stopCall()
+        // onCallEnded will be triggered by the call_ended event
+      } catch (err) {
+        console.error('[RetellClient] Error ending call:', err)
+        cleanupClient()
+        transition('fail')
+        onError(err instanceof Error ? err.message : 'Failed to end call')
+        onCallEnded()
+      }
+    }, DEBOUNCE_TIME_MS)
+  }, [onCallEnded, onError, transition, cleanupClient])
+
+  // Hang up after delayMs, showing a countdown for the last warningMs of it.
+  // Automatic hang-ups never happen inside the minimum call duration.
+  const scheduleHangUp = useCallback((
+    timerRef: MutableRefObject<NodeJS.Timeout | null>,
+    reason: CallTimeoutReason,
+    delayMs: number
+  ) => {
+    const { minDurationMs, warningMs } = callLimitsRef.current
+    const sinceStart = callStartTimeRef.current ? Date.now() - callStartTimeRef.current : 0
+    const endsAt = Date.now() + Math.max(delayMs, minDurationMs - sinceStart)
+
+    const hangUp = () => {
+      console.log(`[RetellClient] Ending call: ${reason}`)
+      timerRef.current = null
+      endCall()
+    }
+
+    timerRef.current = setTimeout(() => {
+      // The maximum duration cannot be extended, so its countdown takes precedence
+      if (reason === 'max-duration' || timeoutWarningRef.current?.reason !== 'max-duration') {
+        setTimeoutWarning({ reason, endsAt })
+      }
+      timerRef.current = setTimeout(hangUp, Math.max(0, endsAt - Date.now()))
+    }, Math.max(0, endsAt - warningMs - Date.now()))
+  }, [endCall, setTimeoutWarning])
+
+  // Restart the inactivity countdown, cancelling its warning
   const resetInactivityTimer = useCallback(() => {
     lastActivityTimeRef.current = Date.now()
     
     // Clear existing timer
     if (inactivityTimerRef.current) {
       clearTimeout(inactivityTimerRef.current)
+      inactivityTimerRef.current = null
+    }
+    if (timeoutWarningRef.current?.reason === 'inactivity') {
+      setTimeoutWarning(null)
     }
     
-    // Set new timer
-    inactivityTimerRef.current = setTimeout(() => {
-      console.log('[RetellClient] Inactivity timeout reached')
-      // Only end call if it's been active for longer than the minimum duration
-      if (callStartTimeRef.current && Date.now() - callStartTimeRef.current > MIN_CALL_DURATION_MS) {
-        endCall()
-      }
-    }, INACTIVITY_TIMEOUT_MS)
-  }, [])
+    // Set new timer once the call is connected
+    const { inactivityTimeoutMs } = callLimitsRef.current
+    if (callStartTimeRef.current && inactivityTimeoutMs > 0) {
+      scheduleHangUp(inactivityTimerRef, 'inactivity', inactivityTimeoutMs)
+    }
+  }, [scheduleHangUp, setTimeoutWarning])
 
-  // Set up event listeners for the Retell client
-  useEffect(() => {
-    if (!clientRef.current || !isInitialized) return
-    
-    console.log('[RetellClient] Setting up event listeners')
-
-    // Handle real-time updates from the call
-    clientRef.current.on("update", (update: { 
-      transcript?: { role: string; content: string }[];
-      llmResponse?: string;
-      response?: string | { content?: string; text?: string }
-    }) => {
-      console.log('[RetellClient] Received update:', update)
-      resetInactivityTimer()
-      
-      // Handle new speech transcriptions
-      if (update.transcript && Array.isArray(update.transcript)) {
-        const latestTranscript = update.transcript[update.transcript.length - 1]
-        if (!latestTranscript) return
+  // Report who is talking, skipping repeats
+  const updateSpeakingState = useCallback((next: SpeakingState) => {
+    if (speakingStateRef.current === next) return
+    speakingStateRef.current = next
+    onSpeakingStateChange?.(next)
+  }, [onSpeakingStateChange])
 
-        const role = latestTranscript.role.toLowerCase() === 'agent' ? 'assistant' : 'user'
-        const content = latestTranscript.content.trim()
+  const resetSpeakingState = useCallback(() => {
+    if (userSpeechTimerRef.current) {
+      clearTimeout(userSpeechTimerRef.current)
+      userSpeechTimerRef.current = null
+    }
+    lastUserTranscriptRef.current = null
+    lastUserSpeechAtRef.current = null
+    updateSpeakingState('silence')
+  }, [updateSpeakingState])
 
-        if (!content) return
+  // Retell has no user talking events, so a changing user transcript counts as speech
+  const handleUserSpeech = useCallback((content: string) => {
+    if (content === lastUserTranscriptRef.current) return
+    lastUserTranscriptRef.current = content
+    lastUserSpeechAtRef.current = Date.now()
 
-        onTranscriptUpdate(role, content)
-      }
+    if (speakingStateRef.current === 'agent') return
+    updateSpeakingState('user')
+    if (userSpeechTimerRef.current) clearTimeout(userSpeechTimerRef.current)
+    userSpeechTimerRef.current = setTimeout(() => {
+      if (speakingStateRef.current === 'user') updateSpeakingState('silence')
+    }, USER_SPEECH_TIMEOUT_MS)
+  }, [updateSpeakingState])
+
+  // Start a call with debouncing to prevent multiple simultaneous calls.
+  // request.agentId picks an agent from the server catalogue; when omitted the server picks one for request.locale or its default.
+  // Transient setup failures are retried with backoff while the call stays 'connecting'.
+  const startCall = useCallback(async (request: CreateCallRequest = {}, options: StartCallOptions = {}) => {
+    const {
+      startMuted = false,
+      captureDeviceId = 'default',
+      playbackDeviceId,
+      emitRawAudioSamples = false
+    } = options
+
+    // Only one call at a time: starting is only allowed from idle, ended or error
+    if (!transition('start')) return
+    
+    // Clear any pending operation timeouts
+    if (operationTimeoutRef.current) {
+      clearTimeout(operationTimeoutRef.current)
+    }
 
-      // Handle bot responses - mark them as complete immediately
-      if (update.response) {
-        const responseContent = typeof update.response === 'object'
-          ? update.response.content || update.response.text || JSON.stringify(update.response)
-          : update.response
+    // One attempt: create the call on the server, then join it with the SDK
+    const connect = async () => {
+      // Any retry countdown is over once an attempt starts
+      onRetryChange?.(null)
 
-        onResponseUpdate(responseContent)
+      // Initialize a fresh client
+      initializeClient()
+      const client = clientRef.current
+      if (!client) {
+        throw new Error('Client initialization failed')
       }
-    })
 
-    // When a sentence is complete, mark the last incomplete message as complete
-    clientRef.current.on("sentence_complete", () => {
-      resetInactivityTimer()
-      onSentenceComplete()
-    })
+      const response = await fetch('/api/retell/create-call', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        // Only the agent selector and caller details are sent; the API key stays on the server
+        body: JSON.stringify(request),
+      })
 
-    // Handle errors during the call
-    clientRef.current.on("error", (error) => {
-      console.error('[RetellClient] Error:', error)
-      onError(error.message || 'An error occurred')
-      
-      // Reset flags
-      isStartingCallRef.current = false
-      isEndingCallRef.current = false
-    })
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({ error: undefined }))
+        throw new CallSetupError(error || 'Failed to create call', response.status)
+      }
 
-    // Handle call ending
-    clientRef.current.on("call_ended", () => {
-      console.log('[RetellClient] Call ended event received')
-      
-      // Reset flags
-      isStartingCallRef.current = false
-      isEndingCallRef.current = false
-      
-      // Clean up resources
-      cleanupClient()
-      
-      // Notify the parent component
-      onCallEnded()
-    })
+      const { access_token, call_id } = await response.json()
 
-    // Cleanup event listeners on unmount or when dependencies change
-    return () => {
-      if (clientRef.current) {
-        console.log('[RetellClient] Removing event listeners')
-        clientRef.current.removeAllListeners()
+      // The SDK reports connection failures through its error event rather than by rejecting
+      let connectError: unknown = null
+      const handleConnectError = (error: unknown) => {
+        connectError = error
       }
-    }
-  }, [isInitialized, onCallEnded, onError, onResponseUpdate, onSentenceComplete, onTranscriptUpdate, resetInactivityTimer, cleanupClient])
-
-  // Start a call with debouncing to prevent multiple simultaneous calls
-  const startCall = useCallback(async () => {
-    // Prevent multiple simultaneous call starts
-    if (isStartingCallRef.current || isEndingCallRef.current) {
-      console.log('[RetellClient] Call operation already in progress, ignoring start request')
-      return
-    }
-    
-    // Set starting flag
-    isStartingCallRef.current = true
-    
-    // Clear any pending operation timeouts
-    if (operationTimeoutRef.current) {
-      clearTimeout(operationTimeoutRef.current)
+      client.on('error', handleConnectError)
+      try {
+        await client.startCall({
+          accessToken: access_token,
+          sampleRate: 24000,
+          captureDeviceId,
+          playbackDeviceId,
+          emitRawAudioSamples
+        })
+      } finally {
+        client.off('error', handleConnectError)
+      }
+      if (connectError) {
+        throw connectError instanceof Error ? connectError : new Error(String(connectError))
+      }
+
+      return call_id as string
     }
     
     // Debounce the operation
     operationTimeoutRef.current = setTimeout(async () => {
+      const abort = new AbortController()
+      retryAbortRef.current = abort
+      const policy = { ...getCallRetryPolicy(), ...retryPolicy }
+
       try {
         console.log('[RetellClient] Starting call')
-        onLoading(true)
-        
-        // Initialize a fresh client
-        initializeClient()
-        
-        if (!clientRef.current) {
-          throw new Error('Client initialization failed')
-        }
-        
-        const response = await fetch('/api/retell/create-call', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            agentId: retellConfig.agentId,
-            apiKey: retellConfig.apiKey
-          }),
+        const callId = await withRetry(connect, {
+          ...policy,
+          shouldRetry: isRetryableCallError,
+          signal: abort.signal,
+          onRetry: (attempt, delayMs, error) => {
+            console.log(`[RetellClient] Call setup failed, retry ${attempt} in ${Math.round(delayMs)} ms:`, error)
+            cleanupClient()
+            onRetryChange?.({
+              attempt,
+              retries: policy.retries,
+              retryAt: Date.now() + delayMs,
+              reason: error instanceof Error ? error.message : String(error)
+            })
+          }
         })
 
-        if (!response.ok) throw new Error('Failed to create call')
-        
-        const { access_token } = await response.json()
-        
-        await clientRef.current.startCall({ 
-          accessToken: access_token,
-          sampleRate: 24000,
-          captureDeviceId: 'default',
-          emitRawAudioSamples: false
-        })
+        // Cancelled while the last attempt was connecting: leave the call it just joined
+        if (abort.signal.aborted) {
+          clientRef.current?.removeAllListeners()
+          clientRef.current?.stopCall()
+          throw new Error('Call setup was cancelled')
+        }
+
+        if (startMuted) {
+          clientRef.current?.mute()
+        }
+        onMuteChange(startMuted)
         
-        // Record call start time and reset activity timer
+        // Record call start time
         callStartTimeRef.current = Date.now()
-        resetInactivityTimer()
+        wentOfflineRef.current = false
         
-        onCallStarted()
+        // The SDK may already have ended the call through its events
+        if (transition('connected')) {
+          lastCallRef.current = { callId, request, options }
+
+          // Start the automatic hang-up timers with this call's limits
+          callLimitsRef.current = { ...getCallLimits(), ...limits }
+          resetInactivityTimer()
+          if (callLimitsRef.current.maxDurationMs > 0) {
+            scheduleHangUp(maxDurationTimerRef, 'max-duration', callLimitsRef.current.maxDurationMs)
+          }
+
+          onCallStarted(callId)
+        }
       } catch (err) {
         console.error('[RetellClient] Error starting call:', err)
-        onError(err instanceof Error ? err.message : 'Failed to start call')
-        onLoading(false)
+        onRetryChange?.(null)
         cleanupClient()
+        transition('fail')
+        onError(abort.signal.aborted
+          ? 'Call setup was cancelled'
+          : err instanceof Error ? err.message : 'Failed to start call')
       } finally {
-        isStartingCallRef.current = false
+        if (retryAbortRef.current === abort) retryAbortRef.current = null
       }
     }, DEBOUNCE_TIME_MS)
-  }, [onCallStarted, onError, onLoading, resetInactivityTimer, cleanupClient, initializeClient])
+  }, [onCallStarted, onError, onMuteChange, onRetryChange, retryPolicy, limits, transition, resetInactivityTimer, scheduleHangUp, cleanupClient, initializeClient])
 
-  // End a call with debouncing to prevent multiple simultaneous calls
-  const endCall = useCallback(async () => {
-    // Prevent multiple simultaneous call endings
-    if (isEndingCallRef.current || isStartingCallRef.current) {
-      console.log('[RetellClient] Call operation already in progress, ignoring end request')
-      return
-    }
-    
-    // Check if call has been active for minimum duration
-    if (callStartTimeRef.current && Date.now() - callStartTimeRef.current < MIN_CALL_DURATION_MS) {
-      console.log('[RetellClient] Call too short, not ending yet')
-      return
-    }
-    
-    // Set ending flag
-    isEndingCallRef.current = true
-    
-    // Clear any pending operation timeouts
-    if (operationTimeoutRef.current) {
-      clearTimeout(operationTimeoutRef.current)
-    }
-    
-    // Debounce the operation
-    operationTimeoutRef.current = setTimeout(async () => {
-      if (!clientRef.current) {
-        isEndingCallRef.current = false
-        return
-      }
+  // Stop waiting for the next setup retry
+  const cancelRetry = useCallback(() => {
+    retryAbortRef.current?.abort()
+  }, [])
+
+  // The user is still there: restart the inactivity countdown
+  const keepAlive = useCallback(() => {
+    if (callStateRef.current === 'ongoing') resetInactivityTimer()
+  }, [resetInactivityTimer])
+
+  // Start a new call with the same settings as the last one, linked to it through previousCallId
+  const reconnect = useCallback(() => {
+    const lastCall = lastCallRef.current
+    if (!lastCall) return
+    startCall({ ...lastCall.request, previousCallId: lastCall.callId }, lastCall.options)
+  }, [startCall])
+
+  // Point the SDK event handlers at the latest callbacks after every render
+  useEffect(() => {
+    eventHandlersRef.current = {
+      // Handle real-time updates from the call
+      update: (update) => {
+        console.log('[RetellClient] Received update:', update)
+        resetInactivityTimer()
       
-      try {
-        console.log('[RetellClient] Ending call')
-        await clientRef.current.stopCall()
-        // onCallEnded will be triggered by the call_ended event
-      } catch (err) {
-        console.error('[RetellClient] Error ending call:', err)
-        onError(err instanceof Error ? err.message : 'Failed to end call')
+        // Handle new speech transcriptions
+        if (update.transcript && Array.isArray(update.transcript)) {
+          const latestTranscript = update.transcript[update.transcript.length - 1]
+          if (!latestTranscript) return
+
+          const role = latestTranscript.role.toLowerCase() === 'agent' ? 'assistant' : 'user'
+          const content = latestTranscript.content.trim()
+
+          if (!content) return
+
+          if (role === 'user') handleUserSpeech(content)
+          onTranscriptUpdate(role, content)
+        }
+
+        // Handle bot responses - mark them as complete immediately
+        if (update.response) {
+          const responseContent = typeof update.response === 'object'
+            ? update.response.content || update.response.text || JSON.stringify(update.response)
+            : update.response
+
+          onResponseUpdate(responseContent)
+        }
+      },
+
+      // When a sentence is complete, mark the last incomplete message as complete
+      sentence_complete: () => {
+        resetInactivityTimer()
+        onSentenceComplete()
+      },
+
+      // Speaking indicators and turn latency
+      call_started: () => {
+        resetSpeakingState()
+      },
+
+      agent_start_talking: () => {
+        if (userSpeechTimerRef.current) clearTimeout(userSpeechTimerRef.current)
+        if (lastUserSpeechAtRef.current !== null) {
+          onTurnLatency?.(Date.now() - lastUserSpeechAtRef.current)
+          lastUserSpeechAtRef.current = null
+        }
+        updateSpeakingState('agent')
+      },
+
+      agent_stop_talking: () => {
+        updateSpeakingState('silence')
+      },
+
+      // Raw agent audio, only emitted when the call was started with emitRawAudioSamples
+      audio: (samples) => {
+        onAudio?.(samples)
+      },
+
+      // Handle errors during the call
+      error: (error) => {
+        console.error('[RetellClient] Error:', error)
+        // Errors while connecting belong to the setup attempt, which retries or reports them
+        if (callStateRef.current === 'connecting') return
+        resetSpeakingState()
+        transition('fail')
+        onError(error.message || 'An error occurred')
+      },
+
+      // Handle call ending
+      call_ended: () => {
+        console.log('[RetellClient] Call ended event received')
+        // A call that ends without being asked to while the network is or was down has dropped
+        const wasDropped = callStateRef.current === 'ongoing'
+          && (wentOfflineRef.current || (typeof navigator !== 'undefined' && navigator.onLine === false))
+        if (!transition('ended')) return
+      
+        // Clean up resources
         cleanupClient()
+        resetSpeakingState()
+      
+        // Notify the parent component
         onCallEnded()
+
+        const lastCall = lastCallRef.current
+        if (wasDropped && lastCall) {
+          console.log('[RetellClient] Connection lost, reconnecting')
+          onConnectionLost?.(lastCall.callId)
+          reconnect()
+        }
       }
-    }, DEBOUNCE_TIME_MS)
-  }, [onCallEnded, onError, cleanupClient])
+    }
+  })
+
+  // Remember a network drop during the call, since the SDK reports it as a normal call_ended
+  useEffect(() => {
+    const handleOffline = () => {
+      if (callStateRef.current === 'ongoing') wentOfflineRef.current = true
+    }
+    window.addEventListener('offline', handleOffline)
+    return () => window.removeEventListener('offline', handleOffline)
+  }, [])
+
+  // Mute or unmute the microphone for the active call
+  const mute = useCallback(() => {
+    if (!clientRef.current) return
+    clientRef.current.mute()
+    onMuteChange(true)
+  }, [onMuteChange])
+
+  const unmute = useCallback(() => {
+    if (!clientRef.current) return
+    clientRef.current.unmute()
+    onMuteChange(false)
+  }, [onMuteChange])
 
   return {
     startCall,
     endCall,
+    mute,
+    unmute,
+    cancelRetry,
+    reconnect,
+    keepAlive,
+    callState,
     isInitialized
   }
 } 
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from 'react'
+import { clearSessions, listSessions, saveSession } from '@/lib/session-store'
+import type { VoiceBotSession } from '@/types/voice-bot'
+
+// Keeps the list of saved VoiceBot sessions in sync with the browser session store
+export function useSessionHistory() {
+  const [sessions, setSessions] = useState<VoiceBotSession[]>([])
+  const [isLoaded, setIsLoaded] = useState(false)
+
+  const refresh = useCallback(async () => {
+    try {
+      setSessions(await listSessions())
+    } catch (err) {
+      console.error('[SessionHistory] Failed to load sessions:', err)
+    }
+  }, [])
+
+  // Load saved sessions on mount
+  useEffect(() => {
+    refresh().finally(() => setIsLoaded(true))
+  }, [refresh])
+
+  const persistSession = useCallback(async (session: VoiceBotSession) => {
+    try {
+      await saveSession(session)
+      await refresh()
+    } catch (err) {
+      console.error('[SessionHistory] Failed to save session:', err)
+    }
+  }, [refresh])
+
+  const clearHistory = useCallback(async () => {
+    try {
+      await clearSessions()
+      setSessions([])
+    } catch (err) {
+      console.error('[SessionHistory] Failed to clear sessions:', err)
+    }
+  }, [])
+
+  return {
+    sessions,
+    isLoaded,
+    persistSession,
+    clearHistory
+  }
+}
@@ -0,0 +1,47 @@
+import { useMemo, useRef, useState } from 'react'
+import { useWakeWordDetection } from '@/hooks/use-wake-word-detection'
+import { createVoiceCommandEngine, findVoiceCommand, VOICE_COMMAND_SENSITIVITY } from '@/lib/voice-commands'
+import type { WakeWordEngine } from '@/lib/wake-word-engine'
+import type { VoiceCommand } from '@/types/voice-bot'
+
+interface VoiceCommandOptions {
+  isActive: boolean
+  commands: VoiceCommand[]
+  lang?: string // recognizer language, normally the one picked for the call
+  onCommand: (command: VoiceCommand) => void
+  onError: (error: string) => void
+  engine?: WakeWordEngine
+}
+
+// Listen for control phrases during a call. Uses its own recognizer, which only runs while
+// isActive is true; callers keep it inactive whenever wake word detection is listening.
+export function useVoiceCommands({
+  isActive,
+  commands,
+  lang,
+  onCommand,
+  onError,
+  engine: providedEngine
+}: VoiceCommandOptions) {
+  const [engine] = useState(() => providedEngine ?? createVoiceCommandEngine())
+  const isActiveRef = useRef(isActive)
+  isActiveRef.current = isActive
+
+  const phrases = useMemo(() => commands.map(command => ({ phrase: command.phrase })), [commands])
+
+  const { startDetection } = useWakeWordDetection({
+    isActive,
+    wakeWords: phrases,
+    sensitivity: VOICE_COMMAND_SENSITIVITY,
+    lang,
+    onWakeWordDetected: (phrase) => {
+      const command = findVoiceCommand(phrase.phrase, commands)
+      if (command) onCommand(command)
+
+      // The engine stops after each detection; keep listening for the rest of the call
+      if (isActiveRef.current) startDetection()
+    },
+    onError,
+    engine
+  })
+}
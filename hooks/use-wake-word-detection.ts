@@ -0,0 +1,110 @@
+import { useEffect, useRef, useState } from 'react'
+import { useToast } from '@/hooks/use-toast'
+import { createWakeWordEngine } from '@/lib/wake-words'
+import type { WakeWordEngine } from '@/lib/wake-word-engine'
+import type { WakeWordConfig } from '@/types/voice-bot'
+
+const START_DELAY_MS = 500 // Small delay before listening so the UI settles first
+
+interface WakeWordDetectionOptions {
+  isActive: boolean
+  wakeWords: WakeWordConfig[]
+  sensitivity: number
+  lang?: string // recognizer language; engines default to en-US
+  onWakeWordDetected: (wakeWord: WakeWordConfig) => void
+  onError: (error: string) => void
+  engine?: WakeWordEngine // defaults to the engine chosen by NEXT_PUBLIC_WAKE_WORD_ENGINE
+}
+
+// Listen for wake words while isActive is true, using a pluggable detection engine
+export function useWakeWordDetection({
+  isActive,
+  wakeWords,
+  sensitivity,
+  lang,
+  onWakeWordDetected,
+  onError,
+  engine: providedEngine
+}: WakeWordDetectionOptions) {
+  const { toast } = useToast()
+  const [engine] = useState(() => providedEngine ?? createWakeWordEngine())
+  const hasWarnedUnsupportedRef = useRef(false)
+
+  // Keep the latest callbacks without re-subscribing to the engine
+  const onWakeWordDetectedRef = useRef(onWakeWordDetected)
+  const onErrorRef = useRef(onError)
+  onWakeWordDetectedRef.current = onWakeWordDetected
+  onErrorRef.current = onError
+
+  // Editing wake words reconfigures the engine without restarting it
+  useEffect(() => {
+    engine.configure({ wakeWords, sensitivity })
+  }, [engine, wakeWords, sensitivity])
+
+  // A new language only applies when the recognizer starts, so restart it if it is running
+  const isActiveRef = useRef(isActive)
+  isActiveRef.current = isActive
+  const appliedLangRef = useRef<string | undefined>(undefined)
+  useEffect(() => {
+    if (!lang) return
+    engine.configure({ lang })
+
+    const isChange = appliedLangRef.current !== undefined && appliedLangRef.current !== lang
+    appliedLangRef.current = lang
+    if (isChange && isActiveRef.current && engine.isSupported) {
+      engine.stop()
+      engine.start()
+    }
+  }, [engine, lang])
+
+  useEffect(() => {
+    const offDetected = engine.onDetected(detection => {
+      console.log(`[Wake Word Detection] Heard "${detection.transcript}" (score ${detection.score.toFixed(2)})`)
+      onWakeWordDetectedRef.current(detection.wakeWord)
+    })
+    const offError = engine.onError(error => onErrorRef.current(error))
+
+    return () => {
+      offDetected()
+      offError()
+    }
+  }, [engine])
+
+  // Start/stop detection based on isActive
+  useEffect(() => {
+    if (!isActive) {
+      engine.stop()
+      return
+    }
+
+    if (!engine.isSupported) {
+      // Only warn once per mount
+      if (!hasWarnedUnsupportedRef.current) {
+        hasWarnedUnsupportedRef.current = true
+        toast({
+          title: "Browser Not Supported",
+          description: "Speech recognition is not supported in your browser.",
+          variant: "destructive"
+        })
+      }
+      return
+    }
+
+    const timer = setTimeout(() => engine.start(), START_DELAY_MS)
+    return () => {
+      clearTimeout(timer)
+      engine.stop()
+    }
+  }, [engine, isActive, toast])
+
+  // Release the engine on unmount
+  useEffect(() => {
+    return () => engine.dispose()
+  }, [engine])
+
+  return {
+    startDetection: () => engine.start(),
+    stopDetection: () => engine.stop(),
+    isSupported: engine.isSupported
+  }
+}
@@ -0,0 +1,72 @@
+import type {
+  AnalysisFieldSchema,
+  AnalysisFieldValue,
+  CustomAnalysisData,
+  CustomAnalysisFields,
+} from '@/types/retell';
+
+// Post-call analysis fields configured on the Retell agent.
+// Update this list when the agent's custom analysis changes; the get-calls route
+// and the calls UI both read from it. Keys not listed here show up as extra fields.
+export const analysisSchema: AnalysisFieldSchema[] = [
+  { key: 'name', label: 'Name', type: 'string', order: 10 },
+  { key: 'name of the kid', label: "Kid's Name", type: 'string', order: 20 },
+  { key: 'age of kid', label: "Kid's Age", type: 'string', order: 30 },
+  { key: 'scenario', label: 'Scenario', type: 'string', order: 40 },
+  { key: 'our advice', label: 'Advice Given', type: 'string', order: 50 },
+  { key: 'what caller did for the situation', label: 'Caller Action', type: 'string', order: 60 },
+];
+
+// Schema fields in display order
+export function getOrderedAnalysisFields(schema: AnalysisFieldSchema[] = analysisSchema) {
+  return [...schema].sort((a, b) => a.order - b.order);
+}
+
+function coerceValue(field: AnalysisFieldSchema, raw: unknown): AnalysisFieldValue {
+  if (raw === undefined || raw === null || raw === '') return null;
+
+  switch (field.type) {
+    case 'number': {
+      const value = typeof raw === 'number' ? raw : Number(String(raw).trim());
+      return Number.isFinite(value) ? value : null;
+    }
+    case 'boolean':
+      if (typeof raw === 'boolean') return raw;
+      return ['true', 'yes', '1'].includes(String(raw).trim().toLowerCase());
+    case 'enum': {
+      const value = String(raw);
+      return !field.options || field.options.includes(value) ? value : null;
+    }
+    default:
+      return String(raw);
+  }
+}
+
+// Split Retell's custom_analysis_data into typed schema fields and generic extras
+export function transformCustomAnalysis(
+  data: CustomAnalysisData | undefined,
+  schema: AnalysisFieldSchema[] = analysisSchema
+): CustomAnalysisFields {
+  const source = data || {};
+  const fields: CustomAnalysisFields['fields'] = {};
+  const extraFields: CustomAnalysisFields['extraFields'] = {};
+
+  for (const field of schema) {
+    fields[field.key] = coerceValue(field, source[field.key]);
+  }
+
+  const knownKeys = new Set(schema.map(field => field.key));
+  for (const [key, value] of Object.entries(source)) {
+    if (knownKeys.has(key) || value === undefined || value === null) continue;
+    extraFields[key] = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  return { fields, extraFields };
+}
+
+// Human-readable value for display and export
+export function formatAnalysisValue(value: AnalysisFieldValue | undefined): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
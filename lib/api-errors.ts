@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import type { ApiErrorCode, ApiErrorResponse } from '@/types/retell';
+
+// Error thrown by API route handlers to answer with a specific status and code
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: ApiErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Convert any thrown value into a JSON error response.
+// ApiErrors keep their status; anything else is logged and reported as a 500.
+export function errorResponse(error: unknown, context: string) {
+  if (error instanceof ApiError) {
+    const body: ApiErrorResponse = { error: error.message, code: error.code };
+    return NextResponse.json(body, { status: error.status });
+  }
+
+  console.error(`[${context}] Error:`, error);
+  const body: ApiErrorResponse = {
+    error: error instanceof Error ? error.message : 'Internal server error',
+    code: 'internal_error',
+  };
+  return NextResponse.json(body, { status: 500 });
+}
+
+// Parse a JSON request body, rejecting malformed JSON with a 400
+export async function readJsonBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new ApiError(400, 'invalid_json', 'Request body must be valid JSON');
+  }
+}
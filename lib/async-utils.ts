@@ -0,0 +1,69 @@
+export interface RetryOptions {
+  retries: number; // attempts after the first one
+  baseDelayMs: number;
+  maxDelayMs: number;
+  shouldRetry: (error: unknown) => boolean;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void; // before waiting; attempt counts from 1
+  signal?: AbortSignal; // stops waiting and rethrows the last error
+}
+
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+// Exponential backoff with full jitter: a random delay in [0, base * 2^attempt], capped at maxDelayMs
+export function getBackoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number) {
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt));
+}
+
+// HTTP status carried by SDK and fetch errors, if any
+export function getErrorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+// Rate limits and server errors are worth retrying; other 4xx responses are not
+export function isTransientHttpError(error: unknown) {
+  const status = getErrorStatus(error);
+  return status === 429 || (status !== undefined && status >= 500);
+}
+
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= options.retries || !options.shouldRetry(error) || options.signal?.aborted) throw error;
+      const delayMs = getBackoffDelay(attempt, options.baseDelayMs, options.maxDelayMs);
+      options.onRetry?.(attempt + 1, delayMs, error);
+      await sleep(delayMs, options.signal).catch(() => {
+        throw error;
+      });
+    }
+  }
+}
+
+// Like Promise.all over items.map(fn), but with at most `limit` calls of fn in flight
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
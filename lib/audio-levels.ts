@@ -0,0 +1,52 @@
+// Speech rarely peaks above this RMS, so scale it to a full meter
+const FULL_SCALE_RMS = 0.3
+
+export const WAVEFORM_BARS = 32
+
+export interface AudioLevels {
+  user: number // 0-1
+  agent: number // 0-1
+  userWaveform: number[] // WAVEFORM_BARS peaks, 0-1
+  agentWaveform: number[]
+}
+
+export const SILENT_WAVEFORM: number[] = Array(WAVEFORM_BARS).fill(0)
+
+export const SILENT_LEVELS: AudioLevels = {
+  user: 0,
+  agent: 0,
+  userWaveform: SILENT_WAVEFORM,
+  agentWaveform: SILENT_WAVEFORM,
+}
+
+// Loudness of a block of time-domain samples (-1 to 1), scaled to 0-1
+export function rmsLevel(samples: Float32Array): number {
+  if (samples.length === 0) return 0
+
+  let sum = 0
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i]
+  }
+  return Math.min(1, Math.sqrt(sum / samples.length) / FULL_SCALE_RMS)
+}
+
+// Peak amplitude of each of `bars` equal slices, for drawing a waveform
+export function toWaveform(samples: Float32Array, bars = WAVEFORM_BARS): number[] {
+  if (samples.length === 0) return Array(bars).fill(0)
+
+  const sliceSize = samples.length / bars
+  return Array.from({ length: bars }, (_, bar) => {
+    const start = Math.floor(bar * sliceSize)
+    const end = Math.max(start + 1, Math.floor((bar + 1) * sliceSize))
+    let peak = 0
+    for (let i = start; i < end && i < samples.length; i++) {
+      peak = Math.max(peak, Math.abs(samples[i]))
+    }
+    return Math.min(1, peak)
+  })
+}
+
+// Fall back gradually rather than snapping to zero between frames, like a VU meter
+export function smoothLevel(previous: number, next: number, decay = 0.85): number {
+  return next >= previous ? next : Math.max(next, previous * decay)
+}
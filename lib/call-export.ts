@@ -0,0 +1,105 @@
+import { formatAnalysisValue, getOrderedAnalysisFields } from '@/lib/analysis-schema';
+import type { CallExportFormat, TransformedCall } from '@/types/retell';
+
+export const CALL_EXPORT_FORMATS: CallExportFormat[] = ['csv', 'json', 'ndjson'];
+
+export const CALL_EXPORT_CONTENT_TYPES: Record<CallExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Quote a CSV cell when it contains a delimiter, quote or line break (RFC 4180).
+// Caller-provided text that looks like a formula is prefixed with ' so it opens as plain text.
+function csvCell(value: unknown): string {
+  const raw = value === null || value === undefined ? '' : String(value);
+  const text = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRow(values: unknown[]) {
+  return values.map(csvCell).join(',') + '\r\n';
+}
+
+// One column per analysis schema field; keys outside the schema go in a single JSON column
+function csvHeader() {
+  return csvRow([
+    'call_id',
+    'call_status',
+    'created_at',
+    'duration_seconds',
+    'analysis_status',
+    'call_summary',
+    'user_sentiment',
+    'call_successful',
+    ...getOrderedAnalysisFields().map(field => field.label),
+    'extra_fields',
+  ]);
+}
+
+function csvCallRow(call: TransformedCall) {
+  const { analysis, analysisStatus } = call;
+  return csvRow([
+    call.call_id,
+    call.call_status,
+    call.created_at,
+    call.duration !== undefined ? Math.round(call.duration / 1000) : '',
+    analysisStatus.state === 'failed' ? `failed: ${analysisStatus.reason}` : analysisStatus.state,
+    analysis.callSummary,
+    analysis.userSentiment,
+    formatAnalysisValue(analysis.callSuccessful),
+    ...getOrderedAnalysisFields().map(field => formatAnalysisValue(analysis.fields[field.key])),
+    Object.keys(analysis.extraFields).length > 0 ? JSON.stringify(analysis.extraFields) : '',
+  ]);
+}
+
+// Serialize calls one at a time so an export never holds more than a page of calls in memory
+export async function* serializeCalls(
+  calls: AsyncIterable<TransformedCall>,
+  format: CallExportFormat
+): AsyncGenerator<string> {
+  let index = 0;
+
+  if (format === 'csv') yield csvHeader();
+  if (format === 'json') yield '[';
+
+  for await (const call of calls) {
+    if (format === 'csv') {
+      yield csvCallRow(call);
+    } else if (format === 'json') {
+      yield (index > 0 ? ',' : '') + JSON.stringify(call);
+    } else {
+      yield JSON.stringify(call) + '\n';
+    }
+    index++;
+  }
+
+  if (format === 'json') yield ']';
+}
+
+// Wrap a chunk generator in a web stream that pulls the next chunk only when the client reads
+export function toReadableStream(chunks: AsyncIterator<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(value));
+        }
+      } catch (error) {
+        console.error('[call-export] Export failed mid-stream:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return?.(undefined);
+    },
+  });
+}
@@ -0,0 +1,144 @@
+import type Retell from 'retell-sdk';
+import type { CallFilters, CallSortOrder, TransformedCall } from '@/types/retell';
+
+export const CALL_STATUSES = ['registered', 'ongoing', 'ended', 'error'] as const;
+export const USER_SENTIMENTS = ['Positive', 'Neutral', 'Negative', 'Unknown'] as const;
+
+export const DEFAULT_CALL_FILTERS: CallFilters = {
+  status: [],
+  sentiment: [],
+  agent: [],
+  sort: 'newest',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class InvalidCallFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidCallFilterError';
+  }
+}
+
+function parseList<T extends string>(value: string | null, allowed: readonly T[], name: string): T[] {
+  if (!value) return [];
+  const items = value.split(',').map(item => item.trim()).filter(Boolean);
+  const invalid = items.filter(item => !allowed.includes(item as T));
+  if (invalid.length > 0) {
+    throw new InvalidCallFilterError(`${name} must be one of ${allowed.join(', ')}`);
+  }
+  return items as T[];
+}
+
+function parseIds(value: string | null): string[] {
+  if (!value) return [];
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function parseNumber(value: string | null, name: string): number | undefined {
+  if (!value) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    throw new InvalidCallFilterError(`${name} must be a non-negative number`);
+  }
+  return number;
+}
+
+function parseDate(value: string | null, name: string): string | undefined {
+  if (!value) return undefined;
+  if (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+    throw new InvalidCallFilterError(`${name} must be a date in YYYY-MM-DD format`);
+  }
+  return value;
+}
+
+// Read filters from a query string. Throws InvalidCallFilterError for malformed values.
+export function parseCallFilters(searchParams: URLSearchParams): CallFilters {
+  const successful = searchParams.get('successful');
+  if (successful && successful !== 'true' && successful !== 'false') {
+    throw new InvalidCallFilterError('successful must be true or false');
+  }
+
+  const sort = searchParams.get('sort') || DEFAULT_CALL_FILTERS.sort;
+  if (sort !== 'newest' && sort !== 'oldest') {
+    throw new InvalidCallFilterError('sort must be newest or oldest');
+  }
+
+  return {
+    status: parseList(searchParams.get('status'), CALL_STATUSES, 'status'),
+    sentiment: parseList(searchParams.get('sentiment'), USER_SENTIMENTS, 'sentiment'),
+    successful: successful ? successful === 'true' : undefined,
+    from: parseDate(searchParams.get('from'), 'from'),
+    to: parseDate(searchParams.get('to'), 'to'),
+    minDuration: parseNumber(searchParams.get('min_duration'), 'min_duration'),
+    maxDuration: parseNumber(searchParams.get('max_duration'), 'max_duration'),
+    q: searchParams.get('q')?.trim() || undefined,
+    agent: parseIds(searchParams.get('agent')),
+    sort: sort as CallSortOrder,
+  };
+}
+
+// Write filters back to a query string, leaving out defaults so shared URLs stay short
+export function callFiltersToSearchParams(filters: CallFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.status.length > 0) params.set('status', filters.status.join(','));
+  if (filters.sentiment.length > 0) params.set('sentiment', filters.sentiment.join(','));
+  if (filters.successful !== undefined) params.set('successful', String(filters.successful));
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.minDuration !== undefined) params.set('min_duration', String(filters.minDuration));
+  if (filters.maxDuration !== undefined) params.set('max_duration', String(filters.maxDuration));
+  if (filters.q) params.set('q', filters.q);
+  if (filters.agent.length > 0) params.set('agent', filters.agent.join(','));
+  if (filters.sort !== DEFAULT_CALL_FILTERS.sort) params.set('sort', filters.sort);
+  return params;
+}
+
+// Filters Retell can apply upstream in call.list
+export function toRetellListFilters(filters: CallFilters): Pick<Retell.CallListParams, 'filter_criteria' | 'sort_order'> {
+  const criteria: Retell.CallListParams.FilterCriteria = {};
+
+  if (filters.status.length > 0) {
+    criteria.call_status = filters.status as Retell.CallListParams.FilterCriteria['call_status'];
+  }
+  if (filters.sentiment.length > 0) {
+    criteria.user_sentiment = filters.sentiment as Retell.CallListParams.FilterCriteria['user_sentiment'];
+  }
+  if (filters.agent.length > 0) {
+    criteria.agent_id = filters.agent;
+  }
+  if (filters.successful !== undefined) {
+    criteria.call_successful = [filters.successful];
+  }
+  if (filters.from || filters.to) {
+    criteria.start_timestamp = {
+      lower_threshold: filters.from ? Date.parse(filters.from) : undefined,
+      upper_threshold: filters.to ? Date.parse(filters.to) + DAY_MS - 1 : undefined,
+    };
+  }
+  if (filters.minDuration !== undefined || filters.maxDuration !== undefined) {
+    criteria.duration_ms = {
+      lower_threshold: filters.minDuration !== undefined ? filters.minDuration * 1000 : undefined,
+      upper_threshold: filters.maxDuration !== undefined ? filters.maxDuration * 1000 : undefined,
+    };
+  }
+
+  return {
+    filter_criteria: Object.keys(criteria).length > 0 ? criteria : undefined,
+    sort_order: filters.sort === 'oldest' ? 'ascending' : 'descending',
+  };
+}
+
+// Free-text search over the call summary and every custom analysis value.
+// Retell cannot search analysis text, so this runs on each page after transformation.
+export function matchesCallSearch(call: TransformedCall, query: string | undefined): boolean {
+  if (!query) return true;
+  const needle = query.toLowerCase();
+  const haystack = [
+    call.analysis.callSummary,
+    ...Object.values(call.analysis.fields),
+    ...Object.values(call.analysis.extraFields),
+  ];
+  return haystack.some(value => value !== null && String(value).toLowerCase().includes(needle));
+}
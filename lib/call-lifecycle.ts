@@ -0,0 +1,34 @@
+import type { CallLifecycleState } from '@/types/voice-bot'
+
+// start: the user asked for a call; connected: the SDK joined it; end: the user asked to hang up;
+// ended: the SDK reported the call over; fail: setup or the call itself failed
+export type CallLifecycleEvent = 'start' | 'connected' | 'end' | 'ended' | 'fail'
+
+// Every legal transition. Anything missing, such as 'end' while still connecting, is rejected.
+const TRANSITIONS: Record<CallLifecycleState, Partial<Record<CallLifecycleEvent, CallLifecycleState>>> = {
+  idle: { start: 'connecting' },
+  connecting: { connected: 'ongoing', ended: 'ended', fail: 'error' },
+  ongoing: { end: 'ending', ended: 'ended', fail: 'error' },
+  ending: { ended: 'ended', fail: 'error' },
+  ended: { start: 'connecting' },
+  error: { start: 'connecting' },
+}
+
+// The state after `event`, or null when the event is not allowed in `state`
+export function nextCallState(state: CallLifecycleState, event: CallLifecycleEvent): CallLifecycleState | null {
+  return TRANSITIONS[state][event] ?? null
+}
+
+export function canTransition(state: CallLifecycleState, event: CallLifecycleEvent): boolean {
+  return nextCallState(state, event) !== null
+}
+
+// Connected to the agent, including while hanging up
+export function isCallLive(state: CallLifecycleState): boolean {
+  return state === 'ongoing' || state === 'ending'
+}
+
+// Waiting on the SDK to connect or disconnect
+export function isCallTransitioning(state: CallLifecycleState): boolean {
+  return state === 'connecting' || state === 'ending'
+}
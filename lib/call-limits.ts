@@ -0,0 +1,26 @@
+import { readNonNegativeNumber } from '@/lib/utils'
+
+export interface CallLimits {
+  minDurationMs: number // automatic hang-ups wait at least this long after the call connects
+  inactivityTimeoutMs: number // hang up after this long without transcript updates; 0 turns it off
+  maxDurationMs: number // hang up after this long in any case; 0 for no limit
+  warningMs: number // how long the countdown is shown before an automatic hang-up
+}
+
+export const DEFAULT_CALL_LIMITS: CallLimits = {
+  minDurationMs: 10000,
+  inactivityTimeoutMs: 300000,
+  maxDurationMs: 0,
+  warningMs: 30000,
+}
+
+// Limits from NEXT_PUBLIC_CALL_MIN_DURATION_MS, NEXT_PUBLIC_CALL_INACTIVITY_TIMEOUT_MS,
+// NEXT_PUBLIC_CALL_MAX_DURATION_MS and NEXT_PUBLIC_CALL_TIMEOUT_WARNING_MS
+export function getCallLimits(): CallLimits {
+  return {
+    minDurationMs: readNonNegativeNumber(process.env.NEXT_PUBLIC_CALL_MIN_DURATION_MS, DEFAULT_CALL_LIMITS.minDurationMs),
+    inactivityTimeoutMs: readNonNegativeNumber(process.env.NEXT_PUBLIC_CALL_INACTIVITY_TIMEOUT_MS, DEFAULT_CALL_LIMITS.inactivityTimeoutMs),
+    maxDurationMs: readNonNegativeNumber(process.env.NEXT_PUBLIC_CALL_MAX_DURATION_MS, DEFAULT_CALL_LIMITS.maxDurationMs),
+    warningMs: readNonNegativeNumber(process.env.NEXT_PUBLIC_CALL_TIMEOUT_WARNING_MS, DEFAULT_CALL_LIMITS.warningMs),
+  }
+}
@@ -0,0 +1,116 @@
+import Retell from 'retell-sdk';
+import { ApiError } from '@/lib/api-errors';
+import { isCallFinal, toStoredCall, toTransformedCall } from '@/lib/retell-calls';
+import { getCallRepository } from '@/lib/call-repository';
+import { isTransientHttpError, mapWithConcurrency, withRetry } from '@/lib/async-utils';
+import {
+  InvalidCallFilterError,
+  matchesCallSearch,
+  parseCallFilters,
+  toRetellListFilters,
+} from '@/lib/call-filters';
+import type { CallFilters, CallListParams, GetCallsResponse, StoredCall, TransformedCall } from '@/types/retell';
+
+const RETRIEVE_CONCURRENCY = 5; // Parallel call.retrieve requests per page
+// The SDK's own retries are off (maxRetries: 0), so every Retell request goes through this policy
+const RETELL_RETRY = {
+  retries: 3,
+  baseDelayMs: 250,
+  maxDelayMs: 4000,
+  shouldRetry: isTransientHttpError,
+};
+
+// Parse call history filters from a request, answering malformed values with a 400
+export function parseFilterParams(searchParams: URLSearchParams): CallFilters {
+  try {
+    return parseCallFilters(searchParams);
+  } catch (error) {
+    if (error instanceof InvalidCallFilterError) {
+      throw new ApiError(400, 'invalid_request', error.message);
+    }
+    throw error;
+  }
+}
+
+// Fetch one page of calls with their analysis.
+// Ended, analyzed calls are served from the local store; only the rest go upstream.
+export async function fetchCallPage(
+  client: Retell,
+  listParams: CallListParams,
+  filters: CallFilters
+): Promise<GetCallsResponse> {
+  // Status, sentiment, success, date and duration filters are applied by Retell
+  const callsResponse = await withRetry(() => client.call.list({
+    ...listParams,
+    ...toRetellListFilters(filters),
+  }), RETELL_RETRY);
+
+  if (!callsResponse || !Array.isArray(callsResponse)) {
+    console.error('Invalid response format:', callsResponse);
+    throw new Error('Unexpected response format from Retell API');
+  }
+
+  const repository = getCallRepository();
+  const storedCalls = await repository.getMany(callsResponse.map(call => call.call_id));
+  console.log(`Found ${storedCalls.size} of ${callsResponse.length} calls in the local store`);
+
+  const finalCalls: StoredCall[] = [];
+
+  // For each call not in the store, fetch its detailed analysis using the Get Call API
+  const callsWithAnalysis = await mapWithConcurrency(
+    callsResponse,
+    RETRIEVE_CONCURRENCY,
+    async (call): Promise<TransformedCall> => {
+      const storedCall = storedCalls.get(call.call_id);
+      // Map stored calls on every read so they follow the current analysis schema
+      if (storedCall) return toTransformedCall(storedCall);
+
+      try {
+        // Get detailed call data including analysis results
+        const detailedCall = await withRetry(() => client.call.retrieve(call.call_id), RETELL_RETRY);
+        if (isCallFinal(detailedCall)) {
+          finalCalls.push(toStoredCall(detailedCall));
+        }
+
+        return toTransformedCall(detailedCall);
+      } catch (error) {
+        console.error(`Error fetching analysis for call ${call.call_id}:`, error);
+        // Keep the list entry, but mark its analysis as failed rather than empty
+        return {
+          ...toTransformedCall({ ...call, call_analysis: undefined }),
+          analysisStatus: {
+            state: 'failed',
+            reason: error instanceof Error ? error.message : 'Failed to fetch call analysis'
+          }
+        };
+      }
+    }
+  );
+
+  await repository.save(finalCalls);
+
+  // Retell paginates by call id (exclusive), so the last call of a full page is the next cursor.
+  // A short page means there is nothing left to fetch. Text search only narrows the page,
+  // so the cursor still follows the upstream page.
+  return {
+    data: callsWithAnalysis.filter(call => matchesCallSearch(call, filters.q)),
+    pagination_key: callsResponse.length === listParams.limit
+      ? callsResponse[callsResponse.length - 1]?.call_id
+      : undefined
+  };
+}
+
+// Walk every page of calls matching the filters, one page in memory at a time
+export async function* fetchAllCalls(
+  client: Retell,
+  filters: CallFilters,
+  pageSize: number
+): AsyncGenerator<TransformedCall> {
+  let paginationKey: string | undefined;
+
+  do {
+    const page = await fetchCallPage(client, { limit: pageSize, pagination_key: paginationKey }, filters);
+    yield* page.data;
+    paginationKey = page.pagination_key;
+  } while (paginationKey);
+}
@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { StoredCall } from '@/types/retell';
+
+// Server-side store of calls that will not change upstream any more (ended and analyzed).
+// get-calls reads these instead of calling client.call.retrieve for every call on every page view.
+// Calls are stored unmapped, so a change to the analysis schema also applies to stored calls.
+export interface CallRepository {
+  get(callId: string): Promise<StoredCall | null>;
+  getMany(callIds: string[]): Promise<Map<string, StoredCall>>;
+  save(calls: StoredCall[]): Promise<void>;
+}
+
+export class InMemoryCallRepository implements CallRepository {
+  protected calls = new Map<string, StoredCall>();
+
+  async get(callId: string) {
+    return this.calls.get(callId) || null;
+  }
+
+  async getMany(callIds: string[]) {
+    const found = new Map<string, StoredCall>();
+    for (const callId of callIds) {
+      const call = this.calls.get(callId);
+      if (call) found.set(callId, call);
+    }
+    return found;
+  }
+
+  async save(calls: StoredCall[]) {
+    for (const call of calls) {
+      this.calls.set(call.call_id, call);
+    }
+  }
+}
+
+// Keeps calls in memory and mirrors them to a JSON file so they survive restarts
+export class FileCallRepository extends InMemoryCallRepository {
+  private loaded: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  private load() {
+    if (!this.loaded) {
+      this.loaded = fs.readFile(this.filePath, 'utf8')
+        .then((contents) => {
+          const stored = JSON.parse(contents) as StoredCall[];
+          this.calls = new Map(stored.map(call => [call.call_id, call]));
+        })
+        .catch((error: NodeJS.ErrnoException) => {
+          if (error.code !== 'ENOENT') {
+            console.error('[CallRepository] Failed to read call store, starting empty:', error);
+          }
+        });
+    }
+    return this.loaded;
+  }
+
+  async get(callId: string) {
+    await this.load();
+    return super.get(callId);
+  }
+
+  async getMany(callIds: string[]) {
+    await this.load();
+    return super.getMany(callIds);
+  }
+
+  async save(calls: StoredCall[]) {
+    if (calls.length === 0) return;
+    await this.load();
+    await super.save(calls);
+
+    // Serialize writes and swap the file in atomically so readers never see a partial store
+    this.writing = this.writing.then(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(Array.from(this.calls.values())));
+      await fs.rename(tempPath, this.filePath);
+    }).catch((error) => {
+      console.error('[CallRepository] Failed to write call store:', error);
+    });
+    await this.writing;
+  }
+}
+
+let repository: CallRepository | null = null;
+
+export function getCallRepository(): CallRepository {
+  if (!repository) {
+    const filePath = process.env.CALL_STORE_PATH || path.join(process.cwd(), '.data', 'calls.json');
+    repository = new FileCallRepository(filePath);
+  }
+  return repository;
+}
+
+// Replace the shared repository, e.g. with an InMemoryCallRepository in tests
+export function setCallRepository(next: CallRepository | null) {
+  repository = next;
+}
@@ -0,0 +1,38 @@
+import { isTransientHttpError } from '@/lib/async-utils'
+import { readNonNegativeNumber } from '@/lib/utils'
+
+export interface CallRetryPolicy {
+  retries: number // attempts after the first one
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+export const DEFAULT_CALL_RETRY_POLICY: CallRetryPolicy = {
+  retries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 10000,
+}
+
+// Policy from NEXT_PUBLIC_CALL_RETRIES, NEXT_PUBLIC_CALL_RETRY_BASE_MS and NEXT_PUBLIC_CALL_RETRY_MAX_MS
+export function getCallRetryPolicy(): CallRetryPolicy {
+  return {
+    retries: Math.floor(readNonNegativeNumber(process.env.NEXT_PUBLIC_CALL_RETRIES, DEFAULT_CALL_RETRY_POLICY.retries)),
+    baseDelayMs: readNonNegativeNumber(process.env.NEXT_PUBLIC_CALL_RETRY_BASE_MS, DEFAULT_CALL_RETRY_POLICY.baseDelayMs),
+    maxDelayMs: readNonNegativeNumber(process.env.NEXT_PUBLIC_CALL_RETRY_MAX_MS, DEFAULT_CALL_RETRY_POLICY.maxDelayMs),
+  }
+}
+
+// A failed create-call response, carrying its HTTP status for the retry policy
+export class CallSetupError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message)
+    this.name = 'CallSetupError'
+  }
+}
+
+// fetch rejects with a TypeError when the network fails; those are retried, as are 5xx and 429.
+// Anything else, such as a rejected agent or a denied microphone, would fail the same way again,
+// and every attempt creates a new Retell call.
+export function isRetryableCallError(error: unknown) {
+  return error instanceof TypeError || isTransientHttpError(error)
+}
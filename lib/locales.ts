@@ -0,0 +1,48 @@
+import type { LocaleOption } from '@/types/voice-bot'
+
+export const SUPPORTED_LOCALES: LocaleOption[] = [
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'es-ES', label: 'Español' },
+  { code: 'zh-CN', label: '中文（普通话）' },
+]
+
+export const DEFAULT_LOCALE = 'en-US'
+
+const STORAGE_KEY = 'voice-bot:locale'
+
+function isSupportedLocale(locale: string | null | undefined): locale is string {
+  return SUPPORTED_LOCALES.some(option => option.code === locale)
+}
+
+// True when `candidate` names the same locale, or is the bare language of it ('es' matches 'es-MX')
+export function matchesLocale(candidate: string, locale: string): boolean {
+  const wanted = candidate.toLowerCase()
+  const actual = locale.toLowerCase()
+  return wanted === actual || wanted === actual.split('-')[0]
+}
+
+// Locale from NEXT_PUBLIC_DEFAULT_LOCALE when supported, otherwise English
+export function getDefaultLocale(): string {
+  const configured = process.env.NEXT_PUBLIC_DEFAULT_LOCALE
+  return isSupportedLocale(configured) ? configured : DEFAULT_LOCALE
+}
+
+// The locale chosen in this browser, or the configured default
+export function loadLocale(): string {
+  if (typeof window === 'undefined') return getDefaultLocale()
+
+  try {
+    const saved = window.localStorage.getItem(STORAGE_KEY)
+    return isSupportedLocale(saved) ? saved : getDefaultLocale()
+  } catch {
+    return getDefaultLocale()
+  }
+}
+
+export function saveLocale(locale: string) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, locale)
+  } catch (err) {
+    console.error('[Locales] Failed to save locale:', err)
+  }
+}
@@ -0,0 +1,74 @@
+import type { AudioDeviceOption, AudioDeviceSelection } from '@/types/voice-bot'
+
+export const DEFAULT_DEVICE_ID = 'default'
+
+export const DEFAULT_AUDIO_DEVICES: AudioDeviceSelection = {
+  captureDeviceId: DEFAULT_DEVICE_ID,
+  playbackDeviceId: DEFAULT_DEVICE_ID,
+}
+
+const STORAGE_KEY = 'voice-bot:audio-devices'
+
+export interface AudioDeviceList {
+  inputs: AudioDeviceOption[]
+  outputs: AudioDeviceOption[]
+}
+
+export function isMediaDevicesSupported() {
+  return typeof navigator !== 'undefined' && Boolean(navigator.mediaDevices?.enumerateDevices)
+}
+
+// Labels stay empty until the page has microphone permission, so number the unnamed ones
+function toOptions(devices: MediaDeviceInfo[], kind: MediaDeviceKind, fallbackLabel: string): AudioDeviceOption[] {
+  return devices
+    .filter(device => device.kind === kind && device.deviceId && device.deviceId !== DEFAULT_DEVICE_ID)
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      label: device.label || `${fallbackLabel} ${index + 1}`,
+    }))
+}
+
+// Microphones and speakers currently plugged in, excluding the 'default' alias
+export async function listAudioDevices(): Promise<AudioDeviceList> {
+  if (!isMediaDevicesSupported()) return { inputs: [], outputs: [] }
+
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  return {
+    inputs: toOptions(devices, 'audioinput', 'Microphone'),
+    outputs: toOptions(devices, 'audiooutput', 'Speaker'),
+  }
+}
+
+// Swap any device that is no longer plugged in for the system default
+export function resolveAudioDevices(selection: AudioDeviceSelection, devices: AudioDeviceList): AudioDeviceSelection {
+  const isAvailable = (deviceId: string, options: AudioDeviceOption[]) =>
+    deviceId === DEFAULT_DEVICE_ID || options.some(option => option.deviceId === deviceId)
+
+  return {
+    captureDeviceId: isAvailable(selection.captureDeviceId, devices.inputs) ? selection.captureDeviceId : DEFAULT_DEVICE_ID,
+    playbackDeviceId: isAvailable(selection.playbackDeviceId, devices.outputs) ? selection.playbackDeviceId : DEFAULT_DEVICE_ID,
+  }
+}
+
+// Devices chosen in this browser, or the system defaults
+export function loadAudioDevices(): AudioDeviceSelection {
+  if (typeof window === 'undefined') return DEFAULT_AUDIO_DEVICES
+
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || 'null')
+    return {
+      captureDeviceId: typeof saved?.captureDeviceId === 'string' ? saved.captureDeviceId : DEFAULT_DEVICE_ID,
+      playbackDeviceId: typeof saved?.playbackDeviceId === 'string' ? saved.playbackDeviceId : DEFAULT_DEVICE_ID,
+    }
+  } catch {
+    return DEFAULT_AUDIO_DEVICES
+  }
+}
+
+export function saveAudioDevices(selection: AudioDeviceSelection) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(selection))
+  } catch (err) {
+    console.error('[MediaDevices] Failed to save audio devices:', err)
+  }
+}
@@ -0,0 +1,94 @@
+import type Retell from 'retell-sdk';
+import { transformCustomAnalysis } from '@/lib/analysis-schema';
+import type {
+  CallAnalysis,
+  CallDetail,
+  CallLatency,
+  RetellCall,
+  StoredCall,
+  TranscriptUtterance,
+  TransformedCall,
+} from '@/types/retell';
+
+// Calls as returned by the SDK or delivered in webhook payloads
+type AnyRetellCall = Retell.CallResponse | RetellCall;
+
+type CallTimestamps = Pick<RetellCall, 'start_timestamp' | 'end_timestamp'>;
+
+// Retell call IDs, checked before an ID from a request reaches the API or its URLs
+export const CALL_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+// Call duration in milliseconds, derived from Retell's start/end timestamps
+export function getCallDuration(call: CallTimestamps): number | undefined {
+  if (!call.start_timestamp || !call.end_timestamp) return undefined;
+  return call.end_timestamp - call.start_timestamp;
+}
+
+// ISO creation time of a call; calls that never started fall back to now
+export function getCallCreatedAt(call: CallTimestamps): string {
+  return call.start_timestamp
+    ? new Date(call.start_timestamp).toISOString()
+    : new Date().toISOString();
+}
+
+// Map a full Retell call (from call.retrieve) to the shape shown on the call detail page
+export function toCallDetail(call: Retell.CallResponse): CallDetail {
+  // The API also returns completion ratings that the SDK types do not declare yet
+  const callAnalysis = (call.call_analysis || {}) as CallAnalysis;
+
+  return {
+    call_id: call.call_id,
+    agent_id: call.agent_id,
+    call_status: call.call_status,
+    call_type: call.call_type,
+    start_timestamp: call.start_timestamp,
+    end_timestamp: call.end_timestamp,
+    duration: getCallDuration(call),
+    disconnection_reason: call.disconnection_reason,
+    recording_url: call.recording_url,
+    transcript: (call.transcript_object || []) as TranscriptUtterance[],
+    latency: (call.latency || {}) as CallLatency,
+    call_analysis: callAnalysis,
+    custom_analysis: transformCustomAnalysis(callAnalysis.custom_analysis_data),
+    metadata: call.metadata as Record<string, unknown> | undefined,
+  };
+}
+
+// A call that has ended and been analyzed will not change upstream any more
+export function isCallFinal(call: AnyRetellCall): boolean {
+  return (call.call_status === 'ended' && Boolean(call.call_analysis)) || call.call_status === 'error';
+}
+
+// Keep the fields of a Retell call that the call history page is built from
+export function toStoredCall(call: AnyRetellCall): StoredCall {
+  return {
+    call_id: call.call_id,
+    agent_id: call.agent_id,
+    call_status: call.call_status,
+    start_timestamp: call.start_timestamp,
+    end_timestamp: call.end_timestamp,
+    call_analysis: call.call_analysis as CallAnalysis | undefined,
+  };
+}
+
+// Map a Retell call to the summary shown on the call history page
+export function toTransformedCall(call: AnyRetellCall | StoredCall): TransformedCall {
+  const callAnalysis = (call.call_analysis || {}) as CallAnalysis;
+
+  return {
+    call_id: call.call_id,
+    agent_id: call.agent_id,
+    call_status: call.call_status,
+    duration: getCallDuration(call),
+    created_at: getCallCreatedAt(call),
+    analysis: {
+      // Custom analysis fields from custom_analysis_data, mapped through the analysis schema
+      ...transformCustomAnalysis(callAnalysis.custom_analysis_data),
+      // Standard call analysis fields
+      callSummary: callAnalysis.call_summary || '',
+      userSentiment: callAnalysis.user_sentiment || 'Unknown',
+      callSuccessful: callAnalysis.call_successful || false,
+    },
+    analysisStatus: call.call_analysis ? { state: 'ok' } : { state: 'pending' },
+  };
+}
@@ -1,27 +1,87 @@
+import { matchesLocale } from '@/lib/locales';
+import type { RetellAgent } from '@/types/retell';
+
 // Client-side configuration (public)
+// Never put the Retell API key here: NEXT_PUBLIC_* values are inlined into the browser bundle.
 export const retellConfig = {
-    apiKey: process.env.NEXT_PUBLIC_RETELL_API_KEY,
     agentId: process.env.NEXT_PUBLIC_RETELL_AGENT_ID,
     websocketUrl: process.env.NEXT_PUBLIC_WEBSOCKET_URL,
   };
-  
+
   // Server-side configuration (private)
   export const serverRetellConfig = {
-    apiKey: process.env.RETELL_API_KEY || process.env.NEXT_PUBLIC_RETELL_API_KEY,
+    apiKey: process.env.RETELL_API_KEY,
     agentId: process.env.RETELL_AGENT_ID || process.env.NEXT_PUBLIC_RETELL_AGENT_ID,
+    // JSON array of { id, name, description } describing the agents browsers may call
+    agents: parseAgents(process.env.RETELL_AGENTS),
+    // Comma-separated list of extra agent IDs, listed in the catalogue under their ID
+    allowedAgentIds: parseList(process.env.RETELL_ALLOWED_AGENT_IDS),
+    // Comma-separated list of custom dynamic variable keys callers may set before a call
+    allowedDynamicVariables: parseList(process.env.RETELL_DYNAMIC_VARIABLES),
   };
-  
+
+  function parseList(value: string | undefined): string[] {
+    return (value || '')
+      .split(',')
+      .map(item => item.trim())
+      .filter(Boolean);
+  }
+
+  function parseAgents(value: string | undefined): RetellAgent[] {
+    if (!value) return [];
+
+    try {
+      const parsed: unknown = JSON.parse(value);
+      if (!Array.isArray(parsed)) throw new Error('expected an array');
+
+      return parsed.flatMap((entry) => {
+        const { id, name, description, locale } = (entry ?? {}) as Record<string, unknown>;
+        if (typeof id !== 'string' || !id.trim()) {
+          console.error('Ignoring RETELL_AGENTS entry without an id:', entry);
+          return [];
+        }
+        return [{
+          id: id.trim(),
+          name: typeof name === 'string' && name.trim() ? name.trim() : id.trim(),
+          description: typeof description === 'string' ? description : undefined,
+          locale: typeof locale === 'string' && locale.trim() ? locale.trim() : undefined,
+        }];
+      });
+    } catch (error) {
+      console.error('RETELL_AGENTS is not a valid JSON array:', error);
+      return [];
+    }
+  }
+
+  // Agents accepted by /api/retell/create-call. The default agent is always included.
+  export function getAgentCatalogue(): RetellAgent[] {
+    const agents = new Map(serverRetellConfig.agents.map(agent => [agent.id, agent]));
+    const extraIds = [...serverRetellConfig.allowedAgentIds, serverRetellConfig.agentId];
+    for (const id of extraIds) {
+      if (id && !agents.has(id)) agents.set(id, { id, name: id });
+    }
+    return Array.from(agents.values());
+  }
+
+  export function findAgent(agentId: string): RetellAgent | undefined {
+    return getAgentCatalogue().find(agent => agent.id === agentId);
+  }
+
+  // First catalogue agent configured for this locale (or its bare language)
+  export function findAgentForLocale(locale: string): RetellAgent | undefined {
+    return getAgentCatalogue().find(agent => agent.locale && matchesLocale(agent.locale, locale));
+  }
+
   export function validateRetellConfig() {
     const missingVars = [];
-    
-    if (!retellConfig.apiKey) missingVars.push('NEXT_PUBLIC_RETELL_API_KEY');
+
     if (!retellConfig.agentId) missingVars.push('NEXT_PUBLIC_RETELL_AGENT_ID');
     if (!retellConfig.websocketUrl) missingVars.push('NEXT_PUBLIC_WEBSOCKET_URL');
-    
+
     if (missingVars.length > 0) {
       console.error('Missing required Retell configuration:', missingVars);
       return false;
     }
-    
+
     return true;
-  }
\ No newline at end of file
+  }
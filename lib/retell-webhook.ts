@@ -0,0 +1,95 @@
+import Retell from 'retell-sdk';
+import { ApiError } from '@/lib/api-errors';
+import type {
+  RetellCall,
+  RetellWebhookEvent,
+  RetellWebhookEventType,
+} from '@/types/retell';
+
+// Retell.verify rejects signatures older than this, so replays only need to be remembered this long
+const SIGNATURE_TTL_MS = 5 * 60 * 1000;
+
+const WEBHOOK_EVENT_TYPES: RetellWebhookEventType[] = ['call_started', 'call_ended', 'call_analyzed'];
+
+type WebhookHandler<T extends RetellWebhookEventType> = (
+  event: Extract<RetellWebhookEvent, { event: T }>
+) => void | Promise<void>;
+
+type AnyWebhookHandler = (event: RetellWebhookEvent) => void | Promise<void>;
+
+const handlers = new Map<RetellWebhookEventType, Set<AnyWebhookHandler>>();
+const seenSignatures = new Map<string, number>();
+
+// Register a handler for a webhook event type. Returns a function that removes it again.
+export function onRetellWebhook<T extends RetellWebhookEventType>(
+  type: T,
+  handler: WebhookHandler<T>
+): () => void {
+  const registered = handlers.get(type) || new Set();
+  const wrapped: AnyWebhookHandler = (event) =>
+    handler(event as Extract<RetellWebhookEvent, { event: T }>);
+  registered.add(wrapped);
+  handlers.set(type, registered);
+
+  return () => {
+    registered.delete(wrapped);
+  };
+}
+
+// Run every handler registered for the event. One failing handler does not stop the others.
+export async function dispatchRetellWebhook(event: RetellWebhookEvent): Promise<number> {
+  const registered = Array.from(handlers.get(event.event) || []);
+  const results = await Promise.allSettled(registered.map(async handler => handler(event)));
+
+  results.forEach((result) => {
+    if (result.status === 'rejected') {
+      console.error(`[webhook] Handler for ${event.event} failed:`, result.reason);
+    }
+  });
+
+  return registered.length;
+}
+
+// Check the x-retell-signature header and reject signatures that were already used
+export function verifyWebhookSignature(body: string, signature: string | null, apiKey: string) {
+  if (!signature || !Retell.verify(body, apiKey, signature)) {
+    throw new ApiError(401, 'invalid_signature', 'Invalid webhook signature');
+  }
+
+  const now = Date.now();
+  for (const [seen, receivedAt] of seenSignatures) {
+    if (now - receivedAt > SIGNATURE_TTL_MS) seenSignatures.delete(seen);
+  }
+
+  if (seenSignatures.has(signature)) {
+    throw new ApiError(409, 'webhook_replay', 'Webhook event was already received');
+  }
+  seenSignatures.set(signature, now);
+}
+
+export function isHandledWebhookEvent(type: unknown): type is RetellWebhookEventType {
+  return WEBHOOK_EVENT_TYPES.includes(type as RetellWebhookEventType);
+}
+
+// Parse a verified webhook payload. Returns null for event types this app does not handle.
+export function parseWebhookEvent(payload: unknown): RetellWebhookEvent | null {
+  if (payload === null || typeof payload !== 'object') {
+    throw new ApiError(400, 'invalid_request', 'Webhook payload must be a JSON object');
+  }
+
+  const { event, call } = payload as { event?: unknown; call?: unknown };
+  if (typeof event !== 'string') {
+    throw new ApiError(400, 'invalid_request', 'Webhook payload is missing the event type');
+  }
+  if (!isHandledWebhookEvent(event)) return null;
+
+  if (
+    call === null ||
+    typeof call !== 'object' ||
+    typeof (call as RetellCall).call_id !== 'string'
+  ) {
+    throw new ApiError(400, 'invalid_request', `${event} payload is missing call.call_id`);
+  }
+
+  return { event, call: call as RetellCall } as RetellWebhookEvent;
+}
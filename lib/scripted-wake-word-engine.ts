@@ -0,0 +1,97 @@
+import { BaseWakeWordEngine, WakeWordEngineConfig } from '@/lib/wake-word-engine'
+import type { RecognitionSegment } from '@/lib/wake-word-matcher'
+
+// One step of a script: after delayMs, either a recognition result or an error.
+// A transcript function receives the engine's current config, e.g. to say a configured phrase.
+export type ScriptedWakeWordStep =
+  | {
+      delayMs: number
+      transcript: string | ((config: WakeWordEngineConfig) => string)
+      confidence?: number
+      alternatives?: string[]
+    }
+  | { delayMs: number; error: string }
+
+export interface ScriptedWakeWordEngineOptions {
+  loop?: boolean // replay the script from the start after the last step
+  now?: () => number
+}
+
+// Says the first configured wake phrase a few seconds after listening starts, for the demo mode
+export const DEMO_WAKE_WORD_SCRIPT: ScriptedWakeWordStep[] = [
+  { delayMs: 2000, transcript: 'is this thing on', confidence: 0.8 },
+  { delayMs: 3000, transcript: config => config.wakeWords[0]?.phrase ?? 'hey assistant', confidence: 0.9 },
+]
+
+// Replays a fixed script of fake recognition results through the normal matcher.
+// Timing comes from setTimeout, so Jest fake timers make it fully deterministic.
+export class ScriptedWakeWordEngine extends BaseWakeWordEngine {
+  readonly isSupported = true
+
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private running = false
+  private stepIndex = 0
+  private segments: RecognitionSegment[] = []
+  private readonly loop: boolean
+  private readonly now: () => number
+
+  constructor(private readonly script: ScriptedWakeWordStep[], options: ScriptedWakeWordEngineOptions = {}) {
+    super()
+    this.loop = options.loop ?? false
+    this.now = options.now ?? Date.now
+  }
+
+  get isRunning() {
+    return this.running
+  }
+
+  start() {
+    if (this.running) return
+    this.running = true
+    this.stepIndex = 0
+    this.segments = []
+    this.scheduleNextStep()
+  }
+
+  stop() {
+    this.running = false
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  private scheduleNextStep() {
+    if (this.stepIndex >= this.script.length) {
+      if (!this.loop || this.script.length === 0) {
+        this.running = false
+        return
+      }
+      this.stepIndex = 0
+    }
+
+    const step = this.script[this.stepIndex++]
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.runStep(step)
+      // Handlers may have stopped the engine, or restarted it with a fresh timer
+      if (this.running && !this.timer) this.scheduleNextStep()
+    }, step.delayMs)
+  }
+
+  private runStep(step: ScriptedWakeWordStep) {
+    if ('error' in step) {
+      this.emitError(step.error)
+      return
+    }
+
+    const now = this.now()
+    const confidence = step.confidence ?? 0
+    const transcript = typeof step.transcript === 'function' ? step.transcript(this.config) : step.transcript
+    this.segments.push({
+      alternatives: [transcript, ...(step.alternatives ?? [])].map(text => ({ transcript: text, confidence })),
+      receivedAt: now
+    })
+    this.detect(this.segments, now)
+  }
+}
@@ -0,0 +1,64 @@
+import type { VoiceBotSession } from '@/types/voice-bot'
+
+// Conversation history kept in the browser's IndexedDB so it survives reloads.
+// Every function resolves to an empty result where IndexedDB is unavailable (SSR, tests, private mode).
+
+const DB_NAME = 'retell-voice-bot'
+const DB_VERSION = 1
+const STORE_NAME = 'sessions'
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null)
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'callId' })
+        store.createIndex('updatedAt', 'updatedAt')
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        console.error('[SessionStore] Failed to open IndexedDB:', request.error)
+        resolve(null)
+      }
+    })
+  }
+  return dbPromise
+}
+
+// Run a single request against the sessions store and resolve with its result
+async function runRequest<T, F>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>,
+  fallback: F
+): Promise<T | F> {
+  const db = await openDatabase()
+  if (!db) return fallback
+
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export async function saveSession(session: VoiceBotSession): Promise<void> {
+  await runRequest('readwrite', store => store.put(session), undefined)
+}
+
+export function getSession(callId: string): Promise<VoiceBotSession | undefined> {
+  return runRequest('readonly', store => store.get(callId), undefined)
+}
+
+// All saved sessions, most recently updated first
+export async function listSessions(): Promise<VoiceBotSession[]> {
+  const sessions: VoiceBotSession[] = await runRequest('readonly', store => store.getAll(), [])
+  return sessions.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+}
+
+export async function clearSessions(): Promise<void> {
+  await runRequest('readwrite', store => store.clear(), undefined)
+}
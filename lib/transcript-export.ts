@@ -0,0 +1,134 @@
+import type { Message, TranscriptExportFormat } from '@/types/voice-bot'
+
+export const TRANSCRIPT_EXPORT_FORMATS: { value: TranscriptExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { value: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { value: 'srt', label: 'SRT captions', extension: 'srt', mimeType: 'application/x-subrip' },
+  { value: 'vtt', label: 'WebVTT captions', extension: 'vtt', mimeType: 'text/vtt' },
+]
+
+// Captions have no end time of their own, so each one lasts until the next
+// message or a reading-speed estimate, whichever comes first
+const MIN_CAPTION_MS = 1000
+const MS_PER_WORD = 400
+// Some browsers read the blob after click() returns, so the URL is kept alive briefly
+const REVOKE_URL_DELAY_MS = 1000
+
+function speakerName(message: Message) {
+  if (message.type === 'system') return 'System'
+  return message.role === 'user' ? 'You' : 'Assistant'
+}
+
+function pad(value: number, length = 2) {
+  return String(value).padStart(length, '0')
+}
+
+// HH:MM:SS plus milliseconds, using ',' for SRT and '.' for WebVTT
+function formatCaptionTime(ms: number, separator: ',' | '.') {
+  const total = Math.max(0, Math.round(ms))
+  const hours = Math.floor(total / 3600000)
+  const minutes = Math.floor((total % 3600000) / 60000)
+  const seconds = Math.floor((total % 60000) / 1000)
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`
+}
+
+function formatOffset(ms: number) {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  return `${pad(Math.floor(totalSeconds / 60))}:${pad(totalSeconds % 60)}`
+}
+
+// Spoken messages with start/end offsets from the call start
+function toCaptions(messages: Message[], callStartedAt: Date) {
+  const spoken = messages.filter(message => message.type !== 'system' && message.content.trim())
+  const start = callStartedAt.getTime()
+
+  return spoken.map((message, index) => {
+    const from = new Date(message.timestamp).getTime() - start
+    const estimate = Math.max(MIN_CAPTION_MS, message.content.split(/\s+/).length * MS_PER_WORD)
+    const next = spoken[index + 1]
+    const to = next
+      ? Math.min(from + estimate, new Date(next.timestamp).getTime() - start)
+      : from + estimate
+    return { from, to: Math.max(to, from + 1), speaker: speakerName(message), text: message.content }
+  })
+}
+
+function toMarkdown(messages: Message[], callStartedAt: Date) {
+  const lines = [
+    '# Voice Bot Conversation',
+    '',
+    `Started: ${callStartedAt.toLocaleString()}`,
+    '',
+  ]
+  for (const message of messages) {
+    const offset = formatOffset(new Date(message.timestamp).getTime() - callStartedAt.getTime())
+    lines.push(message.type === 'system'
+      ? `_${offset} · ${message.content}_`
+      : `**${speakerName(message)}** (${offset}): ${message.content}`)
+    lines.push('')
+  }
+  return lines.join('\n')
+}
+
+function toSrt(messages: Message[], callStartedAt: Date) {
+  return toCaptions(messages, callStartedAt)
+    .map((caption, index) => [
+      String(index + 1),
+      `${formatCaptionTime(caption.from, ',')} --> ${formatCaptionTime(caption.to, ',')}`,
+      `${caption.speaker}: ${caption.text}`,
+      '',
+    ].join('\n'))
+    .join('\n')
+}
+
+// WebVTT cue text is markup: '<' starts a tag and '&' an entity
+function escapeVttText(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function toVtt(messages: Message[], callStartedAt: Date) {
+  const cues = toCaptions(messages, callStartedAt).map(caption => [
+    `${formatCaptionTime(caption.from, '.')} --> ${formatCaptionTime(caption.to, '.')}`,
+    `<v ${caption.speaker}>${escapeVttText(caption.text)}`,
+    '',
+  ].join('\n'))
+  return ['WEBVTT', '', ...cues].join('\n')
+}
+
+// Render a conversation in the chosen format. Times are relative to callStartedAt;
+// messages from before the call (e.g. wake word notices) are clamped to zero.
+export function formatTranscript(
+  messages: Message[],
+  format: TranscriptExportFormat,
+  callStartedAt: Date
+): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify({ callStartedAt, messages }, null, 2)
+    case 'srt':
+      return toSrt(messages, callStartedAt)
+    case 'vtt':
+      return toVtt(messages, callStartedAt)
+    default:
+      return toMarkdown(messages, callStartedAt)
+  }
+}
+
+// Save the conversation as a file through the browser's download prompt
+export function downloadTranscript(
+  messages: Message[],
+  format: TranscriptExportFormat,
+  callStartedAt: Date
+) {
+  const { extension, mimeType } = TRANSCRIPT_EXPORT_FORMATS.find(option => option.value === format)!
+  const blob = new Blob([formatTranscript(messages, format, callStartedAt)], { type: `${mimeType};charset=utf-8` })
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `conversation-${callStartedAt.toISOString().replace(/[:.]/g, '-')}.${extension}`
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_URL_DELAY_MS)
+}
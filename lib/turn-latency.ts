@@ -0,0 +1,26 @@
+import type { TurnLatencySummary } from '@/types/voice-bot'
+
+// Nearest-rank percentile of an ascending list
+function percentile(sorted: number[], fraction: number) {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(fraction * sorted.length) - 1))
+  return sorted[index]
+}
+
+// Summarise the turn latencies recorded during a call, or null before the first turn
+export function summarizeTurnLatencies(latencies: number[]): TurnLatencySummary | null {
+  if (latencies.length === 0) return null
+
+  const sorted = [...latencies].sort((a, b) => a - b)
+  const total = latencies.reduce((sum, latency) => sum + latency, 0)
+  return {
+    turns: latencies.length,
+    lastMs: latencies[latencies.length - 1],
+    averageMs: Math.round(total / latencies.length),
+    medianMs: percentile(sorted, 0.5),
+    p90Ms: percentile(sorted, 0.9),
+  }
+}
+
+export function formatLatency(ms: number) {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`
+}
@@ -4,3 +4,9 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Numeric setting from an environment variable; unset, malformed or negative values use the fallback
+export function readNonNegativeNumber(value: string | undefined, fallback: number) {
+  const parsed = Number(value)
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+}
@@ -0,0 +1,52 @@
+import type { WakeWordEngine } from '@/lib/wake-word-engine'
+import { WebSpeechWakeWordEngine } from '@/lib/web-speech-wake-word-engine'
+import { ScriptedWakeWordEngine } from '@/lib/scripted-wake-word-engine'
+import { getWakeWordEngineKind } from '@/lib/wake-words'
+import { matchesLocale } from '@/lib/locales'
+import type { VoiceCommand, VoiceCommandAction } from '@/types/voice-bot'
+
+// The recognizer runs in the call's language, so each supported locale has its own phrases
+export const DEFAULT_VOICE_COMMANDS: VoiceCommand[] = [
+  { phrase: 'goodbye assistant', action: 'end-call', locale: 'en' },
+  { phrase: 'mute', action: 'mute', locale: 'en' },
+  { phrase: 'unmute', action: 'unmute', locale: 'en' },
+  { phrase: 'adiós asistente', action: 'end-call', locale: 'es' },
+  { phrase: 'silenciar', action: 'mute', locale: 'es' },
+  { phrase: 'activar micrófono', action: 'unmute', locale: 'es' },
+  { phrase: '再见助手', action: 'end-call', locale: 'zh' },
+  { phrase: '静音', action: 'mute', locale: 'zh' },
+  { phrase: '取消静音', action: 'unmute', locale: 'zh' },
+]
+
+// Commands act on a live call, so they need a closer match than wake words
+export const VOICE_COMMAND_SENSITIVITY = 0.3
+
+export const VOICE_COMMAND_CONFIRMATIONS: Record<VoiceCommandAction, string> = {
+  'end-call': 'Voice command: ending the call...',
+  mute: 'Voice command: microphone muted',
+  unmute: 'Voice command: microphone unmuted',
+}
+
+// Voice commands are opt-in; NEXT_PUBLIC_VOICE_COMMANDS=true turns them on by default
+export function getVoiceCommandsDefault(): boolean {
+  return process.env.NEXT_PUBLIC_VOICE_COMMANDS === 'true'
+}
+
+// A separate recognizer from the wake word one. The scripted demo engine stays silent
+// here so demo calls are not hung up by a scripted "goodbye".
+export function createVoiceCommandEngine(): WakeWordEngine {
+  return getWakeWordEngineKind() === 'scripted'
+    ? new ScriptedWakeWordEngine([])
+    : new WebSpeechWakeWordEngine()
+}
+
+// Commands to listen for in a locale: those tagged with it plus untagged ones.
+// Falls back to every command when none fit, like wake words.
+export function getVoiceCommandsForLocale(commands: VoiceCommand[], locale: string): VoiceCommand[] {
+  const matching = commands.filter(command => !command.locale || matchesLocale(command.locale, locale))
+  return matching.length > 0 ? matching : commands
+}
+
+export function findVoiceCommand(phrase: string, commands: VoiceCommand[]): VoiceCommand | undefined {
+  return commands.find(command => command.phrase === phrase)
+}
@@ -0,0 +1,88 @@
+import {
+  DEFAULT_WAKE_WORD_SENSITIVITY,
+  matchWakeWord,
+  RecognitionSegment,
+  WakeWordMatch,
+} from '@/lib/wake-word-matcher'
+import { DEFAULT_LOCALE } from '@/lib/locales'
+import type { WakeWordConfig } from '@/types/voice-bot'
+
+// A source of wake word detections. Engines stop listening by themselves after a detection;
+// call start() again to resume.
+export interface WakeWordEngine {
+  readonly isSupported: boolean
+  configure(config: Partial<WakeWordEngineConfig>): void
+  start(): void
+  stop(): void
+  onDetected(handler: (detection: WakeWordMatch) => void): () => void
+  onError(handler: (error: string) => void): () => void
+  dispose(): void
+}
+
+export interface WakeWordEngineConfig {
+  wakeWords: WakeWordConfig[]
+  sensitivity: number
+  lang: string // BCP 47 tag for the recognizer
+}
+
+// 'scripted' replays a demo script instead of listening to the microphone
+export type WakeWordEngineKind = 'web-speech' | 'scripted'
+
+// Handler bookkeeping and transcript matching shared by engines that produce text.
+// An engine that spots keywords natively can call emitDetected directly instead of detect.
+export abstract class BaseWakeWordEngine implements WakeWordEngine {
+  abstract readonly isSupported: boolean
+
+  protected config: WakeWordEngineConfig = {
+    wakeWords: [],
+    sensitivity: DEFAULT_WAKE_WORD_SENSITIVITY,
+    lang: DEFAULT_LOCALE,
+  }
+  private detectedHandlers = new Set<(detection: WakeWordMatch) => void>()
+  private errorHandlers = new Set<(error: string) => void>()
+
+  abstract start(): void
+  abstract stop(): void
+
+  configure(config: Partial<WakeWordEngineConfig>) {
+    this.config = { ...this.config, ...config }
+  }
+
+  onDetected(handler: (detection: WakeWordMatch) => void) {
+    this.detectedHandlers.add(handler)
+    return () => {
+      this.detectedHandlers.delete(handler)
+    }
+  }
+
+  onError(handler: (error: string) => void) {
+    this.errorHandlers.add(handler)
+    return () => {
+      this.errorHandlers.delete(handler)
+    }
+  }
+
+  dispose() {
+    this.stop()
+    this.detectedHandlers.clear()
+    this.errorHandlers.clear()
+  }
+
+  // Run the matcher over recognition results; stops and emits on a match
+  protected detect(segments: RecognitionSegment[], now: number): boolean {
+    const match = matchWakeWord(segments, this.config.wakeWords, { sensitivity: this.config.sensitivity, now })
+    if (!match) return false
+
+    this.stop()
+    this.emitDetected(match)
+    return true
+  }
+
+  protected emitDetected(detection: WakeWordMatch) {
+    this.detectedHandlers.forEach(handler => handler(detection))
+  }
+
+  protected emitError(error: string) {
+    this.errorHandlers.forEach(handler => handler(error))
+  }
+}
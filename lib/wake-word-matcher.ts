@@ -0,0 +1,196 @@
+import type { WakeWordConfig } from '@/types/voice-bot'
+
+// Fuzzy wake phrase matching over recent speech recognition results.
+// Each phrase is compared with the recognized words by normalized edit distance and by a
+// Soundex-style phonetic key, so near-misses like "hey assistance" still count.
+
+export interface RecognitionAlternative {
+  transcript: string
+  confidence: number // 0..1; browsers report 0 when they have no estimate
+}
+
+export interface RecognitionSegment {
+  alternatives: RecognitionAlternative[]
+  receivedAt: number // ms timestamp of the latest update to this result
+}
+
+export interface WakeWordMatchOptions {
+  sensitivity?: number // 0 = near-exact matches only, 1 = most lenient
+  windowMs?: number // only results updated within this window are considered
+  now?: number
+}
+
+export interface WakeWordMatch {
+  wakeWord: WakeWordConfig
+  score: number // similarity weighted by recognizer confidence
+  similarity: number
+  confidence: number
+  transcript: string
+}
+
+export const DEFAULT_WAKE_WORD_SENSITIVITY = 0.5
+export const DEFAULT_WAKE_WORD_WINDOW_MS = 4000
+
+// Phonetic matches are slightly less trustworthy than spelling matches
+const PHONETIC_WEIGHT = 0.9
+// Comparing words glued together (e.g. "heyassistant") is a last resort
+const JOINED_WEIGHT = 0.95
+// Used when the recognizer gives no confidence estimate
+const UNKNOWN_CONFIDENCE_WEIGHT = 0.95
+
+const SOUNDEX_CODES: Record<string, string> = {
+  b: '1', f: '1', p: '1', v: '1',
+  c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+  d: '3', t: '3',
+  l: '4',
+  m: '5', n: '5',
+  r: '6',
+}
+
+// Scripts written without spaces between words; each character counts as a word
+const UNSPACED_CHARACTER = /([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}])/gu
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s']/gu, ' ')
+    .replace(UNSPACED_CHARACTER, ' $1 ')
+    .split(/\s+/)
+    .filter(Boolean)
+}
+
+// Levenshtein distance between two strings
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0
+  if (!a.length) return b.length
+  if (!b.length) return a.length
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// 1 for identical strings, 0 for nothing in common
+export function stringSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length)
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest
+}
+
+// Soundex without the four-character limit: first letter, then consonant classes
+// with vowels dropped and repeats collapsed
+export function phoneticKey(word: string): string {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '')
+  if (!letters) return word.toLowerCase()
+
+  let key = letters[0]
+  let previousCode = SOUNDEX_CODES[letters[0]] ?? ''
+  for (const letter of letters.slice(1)) {
+    const code = SOUNDEX_CODES[letter] ?? ''
+    if (code && code !== previousCode) key += code
+    // h and w do not separate repeated codes; vowels do
+    if (letter !== 'h' && letter !== 'w') previousCode = code
+  }
+  return key
+}
+
+export function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1
+  const spelling = stringSimilarity(a, b)
+  const sound = stringSimilarity(phoneticKey(a), phoneticKey(b)) * PHONETIC_WEIGHT
+  return Math.max(spelling, sound)
+}
+
+function windowSimilarity(phraseTokens: string[], windowTokens: string[]): number {
+  let best = 0
+  if (phraseTokens.length === windowTokens.length) {
+    const total = phraseTokens.reduce((sum, token, i) => sum + tokenSimilarity(token, windowTokens[i]), 0)
+    best = total / phraseTokens.length
+  }
+  const joined = tokenSimilarity(phraseTokens.join(''), windowTokens.join('')) * JOINED_WEIGHT
+  return Math.max(best, joined)
+}
+
+// Best similarity between the phrase and any run of consecutive words in the candidate.
+// Runs one word shorter or longer than the phrase catch split or merged words.
+export function phraseSimilarity(phrase: string, candidate: string): number {
+  const phraseTokens = tokenize(phrase)
+  const candidateTokens = tokenize(candidate)
+  if (!phraseTokens.length || !candidateTokens.length) return 0
+
+  let best = 0
+  for (const length of [phraseTokens.length, phraseTokens.length - 1, phraseTokens.length + 1]) {
+    if (length < 1 || length > candidateTokens.length) continue
+    for (let start = 0; start + length <= candidateTokens.length; start++) {
+      best = Math.max(best, windowSimilarity(phraseTokens, candidateTokens.slice(start, start + length)))
+      if (best === 1) return best
+    }
+  }
+  return best
+}
+
+// Minimum score for a match: 0.95 at sensitivity 0, down to 0.6 at sensitivity 1
+export function getMatchThreshold(sensitivity: number): number {
+  return 0.95 - 0.35 * Math.min(1, Math.max(0, sensitivity))
+}
+
+// Low-confidence results need a closer match to clear the same threshold
+function confidenceWeight(confidence: number) {
+  return confidence > 0 ? 0.8 + 0.2 * Math.min(1, confidence) : UNKNOWN_CONFIDENCE_WEIGHT
+}
+
+// Transcripts worth checking: every alternative of each recent result, plus the best
+// alternatives of all recent results joined, in case the phrase spans two results
+function getCandidates(segments: RecognitionSegment[]): RecognitionAlternative[] {
+  const candidates = segments.flatMap(segment => segment.alternatives)
+  const topAlternatives = segments.map(segment => segment.alternatives[0]).filter(Boolean)
+
+  if (topAlternatives.length > 1) {
+    const known = topAlternatives.filter(alternative => alternative.confidence > 0)
+    candidates.push({
+      transcript: topAlternatives.map(alternative => alternative.transcript).join(' '),
+      confidence: known.length === topAlternatives.length
+        ? Math.min(...known.map(alternative => alternative.confidence))
+        : 0,
+    })
+  }
+  return candidates
+}
+
+// The best-scoring wake phrase heard in the recent results, or null if none clears the
+// sensitivity threshold. Ties go to the longer phrase.
+export function matchWakeWord(
+  segments: RecognitionSegment[],
+  wakeWords: WakeWordConfig[],
+  {
+    sensitivity = DEFAULT_WAKE_WORD_SENSITIVITY,
+    windowMs = DEFAULT_WAKE_WORD_WINDOW_MS,
+    now = Date.now(),
+  }: WakeWordMatchOptions = {}
+): WakeWordMatch | null {
+  const recent = segments.filter(segment => now - segment.receivedAt <= windowMs)
+  const threshold = getMatchThreshold(sensitivity)
+  let best: WakeWordMatch | null = null
+
+  for (const candidate of getCandidates(recent)) {
+    for (const wakeWord of wakeWords) {
+      const similarity = phraseSimilarity(wakeWord.phrase, candidate.transcript)
+      const score = similarity * confidenceWeight(candidate.confidence)
+      if (score < threshold) continue
+
+      const isBetter = !best
+        || score > best.score
+        || (score === best.score && wakeWord.phrase.length > best.wakeWord.phrase.length)
+      if (isBetter) {
+        best = { wakeWord, score, similarity, confidence: candidate.confidence, transcript: candidate.transcript }
+      }
+    }
+  }
+  return best
+}
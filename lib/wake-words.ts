@@ -0,0 +1,120 @@
+import { DEFAULT_WAKE_WORD_SENSITIVITY } from '@/lib/wake-word-matcher'
+import type { WakeWordEngine, WakeWordEngineKind } from '@/lib/wake-word-engine'
+import { WebSpeechWakeWordEngine } from '@/lib/web-speech-wake-word-engine'
+import { DEMO_WAKE_WORD_SCRIPT, ScriptedWakeWordEngine } from '@/lib/scripted-wake-word-engine'
+import { matchesLocale } from '@/lib/locales'
+import type { WakeWordConfig } from '@/types/voice-bot'
+
+// Wake phrases come from NEXT_PUBLIC_WAKE_WORDS unless the user has saved their own in this browser
+export const DEFAULT_WAKE_WORDS: WakeWordConfig[] = [
+  { phrase: 'hey assistant', locale: 'en' },
+  { phrase: 'hola asistente', locale: 'es' },
+  { phrase: '你好助手', locale: 'zh' },
+]
+
+const STORAGE_KEY = 'voice-bot:wake-words'
+
+function normalizePhrase(phrase: string) {
+  return phrase.toLowerCase().replace(/[^\p{L}\p{N}\s']/gu, ' ').replace(/\s+/g, ' ').trim()
+}
+
+// Keep only entries with a usable phrase, normalized and without duplicates
+export function sanitizeWakeWords(entries: unknown): WakeWordConfig[] {
+  if (!Array.isArray(entries)) return []
+
+  const seen = new Set<string>()
+  return entries.flatMap((entry): WakeWordConfig[] => {
+    const { phrase, agentId, startMuted, locale } = (typeof entry === 'string' ? { phrase: entry } : entry ?? {}) as Record<string, unknown>
+    if (typeof phrase !== 'string') return []
+
+    const normalized = normalizePhrase(phrase)
+    const phraseLocale = typeof locale === 'string' && locale.trim() ? locale.trim() : undefined
+    const key = `${phraseLocale ?? '*'}:${normalized}`
+    if (!normalized || seen.has(key)) return []
+    seen.add(key)
+
+    return [{
+      phrase: normalized,
+      agentId: typeof agentId === 'string' && agentId.trim() ? agentId.trim() : undefined,
+      startMuted: startMuted === true || undefined,
+      locale: phraseLocale
+    }]
+  })
+}
+
+// Accepts a JSON array of phrases or { phrase, agentId, startMuted, locale } objects,
+// or a plain comma-separated list of phrases
+export function parseWakeWords(value: string | undefined): WakeWordConfig[] {
+  if (!value?.trim()) return []
+
+  try {
+    return sanitizeWakeWords(JSON.parse(value))
+  } catch {
+    return sanitizeWakeWords(value.split(','))
+  }
+}
+
+// Matcher sensitivity from NEXT_PUBLIC_WAKE_WORD_SENSITIVITY (0 = strict, 1 = lenient)
+export function getWakeWordSensitivity(): number {
+  const value = Number(process.env.NEXT_PUBLIC_WAKE_WORD_SENSITIVITY)
+  return process.env.NEXT_PUBLIC_WAKE_WORD_SENSITIVITY && Number.isFinite(value)
+    ? Math.min(1, Math.max(0, value))
+    : DEFAULT_WAKE_WORD_SENSITIVITY
+}
+
+// Detection engine from NEXT_PUBLIC_WAKE_WORD_ENGINE; defaults to the browser's Web Speech API
+export function getWakeWordEngineKind(): WakeWordEngineKind {
+  return process.env.NEXT_PUBLIC_WAKE_WORD_ENGINE === 'scripted' ? 'scripted' : 'web-speech'
+}
+
+export function createWakeWordEngine(kind: WakeWordEngineKind = getWakeWordEngineKind()): WakeWordEngine {
+  switch (kind) {
+    case 'scripted':
+      return new ScriptedWakeWordEngine(DEMO_WAKE_WORD_SCRIPT)
+    default:
+      return new WebSpeechWakeWordEngine()
+  }
+}
+
+export function getConfiguredWakeWords(): WakeWordConfig[] {
+  const configured = parseWakeWords(process.env.NEXT_PUBLIC_WAKE_WORDS)
+  return configured.length > 0 ? configured : DEFAULT_WAKE_WORDS
+}
+
+// Wake words saved by the user, or the configured ones when there are none
+export function loadWakeWords(): WakeWordConfig[] {
+  if (typeof window === 'undefined') return getConfiguredWakeWords()
+
+  try {
+    const saved = sanitizeWakeWords(JSON.parse(window.localStorage.getItem(STORAGE_KEY) || 'null'))
+    return saved.length > 0 ? saved : getConfiguredWakeWords()
+  } catch {
+    return getConfiguredWakeWords()
+  }
+}
+
+// Save the user's wake words; an empty list goes back to the configured defaults
+export function saveWakeWords(wakeWords: WakeWordConfig[]): WakeWordConfig[] {
+  const sanitized = sanitizeWakeWords(wakeWords)
+  try {
+    if (sanitized.length > 0) {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(sanitized))
+    } else {
+      window.localStorage.removeItem(STORAGE_KEY)
+    }
+  } catch (err) {
+    console.error('[WakeWords] Failed to save wake words:', err)
+  }
+  return sanitized.length > 0 ? sanitized : getConfiguredWakeWords()
+}
+
+// Phrases to listen for in a locale: those tagged with it plus untagged ones.
+// Falls back to every phrase when none fit, so detection never silently stops.
+export function getWakeWordsForLocale(wakeWords: WakeWordConfig[], locale: string): WakeWordConfig[] {
+  const matching = wakeWords.filter(wakeWord => !wakeWord.locale || matchesLocale(wakeWord.locale, locale))
+  return matching.length > 0 ? matching : wakeWords
+}
+
+export function formatWakeWords(wakeWords: WakeWordConfig[]) {
+  return wakeWords.map(wakeWord => `"${wakeWord.phrase}"`).join(', ')
+}
@@ -0,0 +1,162 @@
+import '../types/speech-recognition'
+import { BaseWakeWordEngine } from '@/lib/wake-word-engine'
+import type { RecognitionSegment } from '@/lib/wake-word-matcher'
+
+const MAX_START_ATTEMPTS = 5
+const MAX_RESTART_DELAY_MS = 10000
+const ERROR_REPORT_INTERVAL_MS = 5000
+
+type SpeechRecognitionConstructor = new () => SpeechRecognition
+
+function getSpeechRecognition(): SpeechRecognitionConstructor | undefined {
+  if (typeof window === 'undefined') return undefined
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor
+    webkitSpeechRecognition?: SpeechRecognitionConstructor
+  }
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition
+}
+
+// Wake word detection with the browser's Web Speech API. Recognition runs continuously
+// and restarts with backoff when the browser ends it, until stop() or a detection.
+export class WebSpeechWakeWordEngine extends BaseWakeWordEngine {
+  private recognition: SpeechRecognition | null = null
+  private isListening = false // start() was called and no stop() or detection since
+  private isRecognitionActive = false
+  // Bumped by stop(); results from a session started before the last stop() are ignored, since
+  // the browser still delivers them while it finishes and they would repeat a detection
+  private session = 0
+  private recognitionSession = -1
+  private restartTimer: ReturnType<typeof setTimeout> | null = null
+  private startAttempts = 0
+  private lastErrorTime = 0
+  // When each result index was last updated, so stale interim results can be ignored
+  private resultTimes: number[] = []
+
+  get isSupported() {
+    return Boolean(getSpeechRecognition())
+  }
+
+  start() {
+    this.isListening = true
+    this.startRecognition()
+  }
+
+  // The recognizer counts as active until its onend fires, so a start() right after stop()
+  // waits for the browser to finish instead of failing with InvalidStateError
+  stop() {
+    this.isListening = false
+    this.session++
+    this.clearRestartTimer()
+
+    if (this.recognition && this.isRecognitionActive) {
+      try {
+        this.recognition.stop()
+      } catch {
+        // Stopping an already stopped recognizer is harmless
+        this.isRecognitionActive = false
+      }
+    }
+  }
+
+  dispose() {
+    super.dispose()
+    this.recognition = null
+  }
+
+  private clearRestartTimer() {
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer)
+      this.restartTimer = null
+    }
+  }
+
+  private createRecognition(): SpeechRecognition | null {
+    const SpeechRecognition = getSpeechRecognition()
+    if (!SpeechRecognition) return null
+
+    const recognition = new SpeechRecognition()
+    recognition.continuous = true
+    recognition.interimResults = true
+    recognition.lang = this.config.lang
+    recognition.maxAlternatives = 3
+
+    recognition.onresult = (event: SpeechRecognitionEvent) => {
+      if (!this.isListening || this.recognitionSession !== this.session) return
+
+      const now = Date.now()
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        this.resultTimes[i] = now
+      }
+
+      const segments: RecognitionSegment[] = Array.from(event.results).map((result, i) => ({
+        alternatives: Array.from(result).map(alternative => ({
+          transcript: alternative.transcript,
+          confidence: alternative.confidence
+        })),
+        receivedAt: this.resultTimes[i] ?? now
+      }))
+
+      this.detect(segments, now)
+    }
+
+    // The browser ends continuous recognition after silence; restart while still listening
+    recognition.onend = () => {
+      this.isRecognitionActive = false
+      if (!this.isListening) return
+
+      const delay = Math.min(1000 * Math.pow(1.5, this.startAttempts), MAX_RESTART_DELAY_MS)
+      this.clearRestartTimer()
+      this.restartTimer = setTimeout(() => this.startRecognition(), delay)
+    }
+
+    // Report significant errors, at most once per interval
+    recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
+      this.isRecognitionActive = false
+
+      const now = Date.now()
+      if (event.error === 'aborted' || now - this.lastErrorTime <= ERROR_REPORT_INTERVAL_MS) return
+      this.lastErrorTime = now
+      console.error(`[Wake Word Detection] Error: "${event.error}"`)
+
+      if (event.error !== 'no-speech') {
+        this.emitError(event.error)
+      }
+    }
+
+    return recognition
+  }
+
+  private startRecognition() {
+    if (!this.isListening || this.isRecognitionActive) return
+
+    if (!this.recognition) {
+      this.recognition = this.createRecognition()
+      if (!this.recognition) {
+        this.emitError('not-supported')
+        return
+      }
+    }
+
+    try {
+      // A language change takes effect from the next start
+      this.recognition.lang = this.config.lang
+      this.recognition.start()
+      this.recognitionSession = this.session
+      this.isRecognitionActive = true
+      this.startAttempts = 0
+      this.resultTimes = [] // a new session numbers its results from zero
+    } catch (err) {
+      console.error('[Wake Word Detection] Start error:', err)
+      this.isRecognitionActive = false
+
+      // Recreate the recognizer and try again a few times
+      this.startAttempts++
+      if (this.startAttempts < MAX_START_ATTEMPTS) {
+        this.recognition = null
+        this.clearRestartTimer()
+        this.restartTimer = setTimeout(() => this.startRecognition(), 1000)
+      }
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { onRetellWebhook } from '@/lib/retell-webhook';
+import { getCallRepository } from '@/lib/call-repository';
+import { isCallFinal, toStoredCall } from '@/lib/retell-calls';
+
+// App-wide reactions to Retell webhook events.
+// Imported by /api/retell/webhook so the handlers are registered before the first event arrives.
+
+onRetellWebhook('call_started', ({ call }) => {
+  console.log(`[webhook] Call started: ${call.call_id}`);
+});
+
+onRetellWebhook('call_ended', ({ call }) => {
+  console.log(`[webhook] Call ended: ${call.call_id} (${call.disconnection_reason || 'unknown reason'})`);
+});
+
+onRetellWebhook('call_analyzed', async ({ call }) => {
+  console.log(`[webhook] Call analyzed: ${call.call_id}`);
+
+  // Store the analyzed call so get-calls does not need to retrieve it again
+  if (isCallFinal(call)) {
+    await getCallRepository().save([toStoredCall(call)]);
+  }
+});
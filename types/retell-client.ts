@@ -50,6 +50,14 @@ export class RetellWebClient extends EventEmitter {
     return Promise.resolve();
   }
 
+  mute(): void {
+    this.log('Muting microphone');
+  }
+
+  unmute(): void {
+    this.log('Unmuting microphone');
+  }
+
   stopCall(): void {
     this.log('Stopping call...');
     try {
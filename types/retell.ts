@@ -11,14 +11,26 @@ export interface WebCallResponse {
     endCall?: () => Promise<void>;
 }
 
+// Post-call fields configured on the agent; see lib/analysis-schema.ts for the known keys
 export interface CustomAnalysisData {
-    name?: string;
-    'name of the kid'?: string;
-    'age of kid'?: string;
-    scenario?: string;
-    'our advice'?: string;
-    'what caller did for the situation'?: string;
-    [key: string]: string | undefined;
+    [key: string]: unknown;
+}
+
+export type AnalysisFieldType = 'string' | 'number' | 'boolean' | 'enum';
+
+export interface AnalysisFieldSchema {
+    key: string; // key as it appears in custom_analysis_data
+    label: string;
+    type: AnalysisFieldType;
+    order: number;
+    options?: string[]; // allowed values for 'enum' fields
+}
+
+export type AnalysisFieldValue = string | number | boolean | null;
+
+export interface CustomAnalysisFields {
+    fields: Record<string, AnalysisFieldValue>; // keyed by schema key
+    extraFields: Record<string, string>; // keys the schema does not know about
 }
 
 export interface CallAnalysis {
@@ -34,32 +46,100 @@ export interface CallAnalysis {
 export interface RetellCall {
     call_id: string;
     call_status: 'registered' | 'ongoing' | 'ended' | 'error';
+    agent_id?: string;
     duration?: number;
     created_at?: string;
+    start_timestamp?: number;
+    end_timestamp?: number;
+    disconnection_reason?: string;
     call_analysis?: CallAnalysis;
+    transcript_object?: TranscriptUtterance[];
+    latency?: CallLatency;
+    recording_url?: string;
     metadata?: Record<string, unknown>;
     call_type?: string;
     access_token?: string;
 }
 
-export interface TransformedAnalysis {
-    name: string;
-    kidName: string;
-    kidAge: string;
-    scenario: string;
-    advice: string;
-    callerAction: string;
+// What the call store keeps of an ended, analyzed call: the raw Retell fields, so the
+// analysis schema is applied when the call is read rather than when it was stored
+export type StoredCall = Pick<
+    RetellCall,
+    'call_id' | 'agent_id' | 'call_status' | 'start_timestamp' | 'end_timestamp' | 'call_analysis'
+>;
+
+export interface TranscriptWord {
+    word: string;
+    start?: number; // seconds from call start
+    end?: number;
+}
+
+export interface TranscriptUtterance {
+    role: 'agent' | 'user';
+    content: string;
+    words: TranscriptWord[];
+}
+
+export interface LatencyStats {
+    p50?: number;
+    p90?: number;
+    p95?: number;
+    p99?: number;
+    max?: number;
+    min?: number;
+    num?: number;
+}
+
+export interface CallLatency {
+    e2e?: LatencyStats;
+    llm?: LatencyStats;
+    tts?: LatencyStats;
+    knowledge_base?: LatencyStats;
+    llm_websocket_network_rtt?: LatencyStats;
+    s2s?: LatencyStats;
+}
+
+export interface TransformedAnalysis extends CustomAnalysisFields {
     callSummary: string;
     userSentiment: string;
     callSuccessful: boolean;
 }
 
+// Whether `analysis` holds real data, is still being produced by Retell, or could not be fetched
+export type AnalysisStatus =
+    | { state: 'ok' }
+    | { state: 'pending' }
+    | { state: 'failed'; reason: string };
+
 export interface TransformedCall {
     call_id: string;
+    agent_id?: string;
     call_status: string;
     duration?: number;
     created_at: string;
     analysis: TransformedAnalysis;
+    analysisStatus: AnalysisStatus;
+}
+
+export interface CallDetail {
+    call_id: string;
+    agent_id: string;
+    call_status: string;
+    call_type: string;
+    start_timestamp?: number;
+    end_timestamp?: number;
+    duration?: number;
+    disconnection_reason?: string;
+    recording_url?: string;
+    transcript: TranscriptUtterance[];
+    latency: CallLatency;
+    call_analysis: CallAnalysis;
+    custom_analysis: CustomAnalysisFields;
+    metadata?: Record<string, unknown>;
+}
+
+export interface GetCallResponse {
+    data: CallDetail;
 }
 
 export interface GetCallsResponse {
@@ -72,6 +152,37 @@ export interface CallListParams {
     pagination_key?: string;
 }
 
+export type CallSortOrder = 'newest' | 'oldest';
+
+export type CallExportFormat = 'csv' | 'json' | 'ndjson';
+
+// Call history filters, shared by the calls page URL and the get-calls query string
+export interface CallFilters {
+    status: string[];
+    sentiment: string[];
+    successful?: boolean;
+    from?: string; // YYYY-MM-DD, inclusive (UTC)
+    to?: string; // YYYY-MM-DD, inclusive (UTC)
+    minDuration?: number; // seconds
+    maxDuration?: number; // seconds
+    q?: string; // free-text search over summaries and custom analysis fields
+    agent: string[];
+    sort: CallSortOrder;
+}
+
+// An agent the browser may start calls with, as listed in the server-side catalogue
+export interface RetellAgent {
+    id: string;
+    name: string;
+    description?: string;
+    locale?: string; // language the agent speaks, e.g. es-ES or es
+}
+
+export interface GetAgentsResponse {
+    data: RetellAgent[];
+    default_agent_id?: string;
+}
+
 export interface CallRetrieveParams {
     include_call_analysis?: boolean;
 }
@@ -91,4 +202,50 @@ export interface RetellClient {
         list: (params: CallListParams) => Promise<CallListResponse>;
     };
     agent_id: string;
-}
\ No newline at end of file
+}
+
+export type RetellWebhookEventType = 'call_started' | 'call_ended' | 'call_analyzed';
+
+export interface CallStartedWebhookEvent {
+    event: 'call_started';
+    call: RetellCall;
+}
+
+export interface CallEndedWebhookEvent {
+    event: 'call_ended';
+    call: RetellCall;
+}
+
+export interface CallAnalyzedWebhookEvent {
+    event: 'call_analyzed';
+    call: RetellCall;
+}
+
+export type RetellWebhookEvent =
+    | CallStartedWebhookEvent
+    | CallEndedWebhookEvent
+    | CallAnalyzedWebhookEvent;
+
+export type ApiErrorCode =
+    | 'invalid_json'
+    | 'invalid_request'
+    | 'agent_not_allowed'
+    | 'variable_not_allowed'
+    | 'not_found'
+    | 'invalid_signature'
+    | 'webhook_replay'
+    | 'server_misconfigured'
+    | 'internal_error';
+
+export interface ApiErrorResponse {
+    error: string;
+    code: ApiErrorCode;
+}
+
+export interface CreateCallRequest {
+    agentId?: string;
+    callerName?: string;
+    locale?: string; // BCP 47 tag, e.g. en-US
+    variables?: Record<string, string>; // keys must be in RETELL_DYNAMIC_VARIABLES
+    previousCallId?: string; // call this one replaces after a dropped connection
+}
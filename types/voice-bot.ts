@@ -0,0 +1,99 @@
+// Interface for chat messages between user and assistant
+export interface Message {
+  id: string
+  type: 'response' | 'transcription' | 'system' // Added system type for wake word notifications
+  role?: string
+  content: string
+  timestamp: Date
+  isComplete?: boolean
+}
+
+export type TranscriptExportFormat = 'markdown' | 'json' | 'srt' | 'vtt'
+
+// A saved conversation, keyed by the Retell call_id it belongs to
+export interface VoiceBotSession {
+  callId: string
+  startedAt: Date
+  updatedAt: Date
+  messages: Message[]
+}
+
+// A custom key/value row in the pre-call form
+export interface CallVariableInput {
+  id: string
+  key: string
+  value: string
+}
+
+// Details collected before a call and sent to create-call
+export interface CallerDetails {
+  callerName: string
+  variables: CallVariableInput[]
+}
+
+// A language the bot can listen and talk in
+export interface LocaleOption {
+  code: string // BCP 47 tag, e.g. es-ES
+  label: string
+}
+
+// A wake phrase and what happens when it is heard
+export interface WakeWordConfig {
+  phrase: string
+  agentId?: string // start the call with this agent instead of the selected one
+  startMuted?: boolean // start the call with the microphone muted
+  locale?: string // only listen for this phrase in this locale ('es' covers every Spanish locale)
+}
+
+export type VoiceCommandAction = 'end-call' | 'mute' | 'unmute'
+
+// A phrase recognised during a call and the control it triggers
+export interface VoiceCommand {
+  phrase: string
+  action: VoiceCommandAction
+  locale?: string // only listen for this phrase in this locale ('es' covers every Spanish locale)
+}
+
+// A microphone or speaker reported by enumerateDevices
+export interface AudioDeviceOption {
+  deviceId: string
+  label: string
+}
+
+// Devices passed to RetellWebClient.startCall; 'default' follows the system setting
+export interface AudioDeviceSelection {
+  captureDeviceId: string
+  playbackDeviceId: string
+}
+
+// Who is talking right now, from Retell's agent_start_talking/agent_stop_talking and transcript updates
+export type SpeakingState = 'agent' | 'user' | 'silence'
+
+// Response times for a call: from the user's last words to the agent starting to talk
+export interface TurnLatencySummary {
+  turns: number
+  lastMs: number
+  averageMs: number
+  medianMs: number
+  p90Ms: number
+}
+
+// Where a call is in its lifecycle; see lib/call-lifecycle.ts for the allowed transitions
+export type CallLifecycleState = 'idle' | 'connecting' | 'ongoing' | 'ending' | 'ended' | 'error'
+
+// A failed call setup waiting to be retried
+export interface CallRetryState {
+  attempt: number // retry number, from 1
+  retries: number // retries allowed by the policy
+  retryAt: number // epoch ms of the next attempt
+  reason: string
+}
+
+// Why a call is about to be hung up automatically
+export type CallTimeoutReason = 'inactivity' | 'max-duration'
+
+// An automatic hang-up that is counting down
+export interface CallTimeoutWarning {
+  reason: CallTimeoutReason
+  endsAt: number // epoch ms of the hang-up
+}